@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+
+import type { FilteredPrompt } from '../types';
+
+/** Lists the prompts the server filtered, with why and when, and lets each be retried. */
+@customElement('filtered-prompt-panel')
+export class FilteredPromptPanel extends LitElement {
+  static styles = css`
+    :host {
+      display: flex;
+      flex-direction: column;
+      gap: 8px;
+      padding: 12px;
+      font-family: 'Courier New', monospace;
+      font-size: 12px;
+      color: #fff;
+      background: rgba(0, 0, 0, 0.85);
+      border: 1px solid rgba(255, 255, 255, 0.3);
+      border-radius: 4px;
+      backdrop-filter: blur(5px);
+    }
+    .entry {
+      display: grid;
+      grid-template-columns: 1fr auto;
+      gap: 2px 8px;
+      align-items: center;
+    }
+    .text {
+      font-weight: 700;
+      color: #f66;
+      text-decoration: line-through;
+    }
+    .reason {
+      grid-column: 1;
+      color: #ffffffaa;
+    }
+    time {
+      color: #ffffff66;
+    }
+    .cue {
+      color: #0f0;
+    }
+    button {
+      font: inherit;
+      color: #fff;
+      background: transparent;
+      border: 1px solid rgba(255, 255, 255, 0.3);
+      border-radius: 4px;
+      padding: 1px 6px;
+      cursor: pointer;
+      &:hover {
+        border-color: #fff;
+      }
+    }
+    .retry {
+      grid-row: span 2;
+    }
+    .actions {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      color: #ffffffaa;
+    }
+  `;
+
+  @property({ type: Array }) filteredPrompts: FilteredPrompt[] = [];
+
+  private dispatch<T>(type: string, detail?: T) {
+    (this as unknown as HTMLElement).dispatchEvent(new CustomEvent<T>(type, { detail }));
+  }
+
+  private renderEntry(entry: FilteredPrompt) {
+    const { text, reason, time, cue } = entry;
+    return html`<div class="entry">
+      <span>${cue ? html`<span class="cue">CUE</span> ` : ''}<span class="text">${text}</span></span>
+      <button class="retry" title="Send this prompt again" @click=${() => this.dispatch('retry', entry)}>RETRY</button>
+      <span class="reason">${reason} · <time>${new Date(time).toLocaleTimeString()}</time></span>
+    </div>`;
+  }
+
+  render() {
+    return html`
+      ${this.filteredPrompts.map((entry) => this.renderEntry(entry))}
+      <div class="actions">
+        <span>${this.filteredPrompts.length === 0 ? 'Nothing filtered' : 'Editing a prompt clears its mark'}</span>
+        <button @click=${() => this.dispatch('close')}>CLOSE</button>
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'filtered-prompt-panel': FilteredPromptPanel;
+  }
+}
@@ -0,0 +1,231 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+
+import type { FxParam, FxSettings, PerformanceFx, PerformanceFxChange, ReverbImpulse } from '../types';
+import type { ControlMapper } from '../utils/ControlMapper';
+import {
+  DEFAULT_FX_SETTINGS,
+  FX_LENGTHS,
+  FX_LEVELS,
+  REVERB_IMPULSES,
+  type FxLength,
+  type FxLevel,
+  type FxToggle,
+} from '../utils/fxSettings';
+import './MidiLearnButton';
+
+/** Tempo-synced effects: delay and reverb sends, and beat repeat and tape stop while held. */
+@customElement('fx-panel')
+export class FxPanel extends LitElement {
+  static styles = css`
+    :host {
+      display: flex;
+      flex-direction: column;
+      gap: 12px;
+      padding: 12px;
+      width: 240px;
+      font-family: 'Courier New', monospace;
+      font-size: 12px;
+      background: rgba(0, 0, 0, 0.75);
+      border: 1px solid rgba(255, 255, 255, 0.3);
+      border-radius: 4px;
+      backdrop-filter: blur(5px);
+    }
+    section {
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+    }
+    .row {
+      display: grid;
+      grid-template-columns: 1fr auto;
+      align-items: center;
+      gap: 2px 8px;
+    }
+    label {
+      font-weight: 700;
+      text-transform: uppercase;
+    }
+    .value {
+      text-align: right;
+      color: #ffffffaa;
+    }
+    input[type='range'] {
+      grid-column: 1 / -1;
+      width: 100%;
+      accent-color: #fff;
+    }
+    .actions {
+      display: flex;
+      gap: 4px;
+      justify-content: flex-end;
+    }
+    button {
+      font: inherit;
+      font-size: 10px;
+      color: #fff;
+      background: transparent;
+      border: 1px solid rgba(255, 255, 255, 0.3);
+      border-radius: 4px;
+      padding: 1px 6px;
+      cursor: pointer;
+      &.on {
+        background: #fff;
+        color: #000;
+      }
+      &.hold {
+        font-size: 12px;
+        font-weight: 700;
+        padding: 4px 10px;
+        touch-action: none;
+        user-select: none;
+      }
+      &.engaged {
+        background: #ff0044;
+        border-color: #ff0044;
+      }
+    }
+    select {
+      font: inherit;
+      background: rgba(255, 255, 255, 0.9);
+      color: #000;
+      border: none;
+      border-radius: 4px;
+      padding: 1px 4px;
+    }
+  `;
+
+  @property({ type: Object }) settings: FxSettings = DEFAULT_FX_SETTINGS;
+  @property({ type: String }) engaged: PerformanceFx | null = null;
+  @property({ type: Boolean }) showMidi = false;
+  @property({ type: Object }) mapper: ControlMapper<FxParam> | null = null;
+
+  private dispatch<T>(type: string, detail?: T) {
+    (this as unknown as HTMLElement).dispatchEvent(new CustomEvent<T>(type, { detail }));
+  }
+
+  private setParam<K extends keyof FxSettings>(key: K, value: FxSettings[K]) {
+    if (this.settings[key] === value) return;
+    this.settings = { ...this.settings, [key]: value };
+    this.dispatch<FxSettings>('fx-changed', this.settings);
+  }
+
+  private engage(fx: PerformanceFx, on: boolean) {
+    // Pointer and MIDI releases of an effect that isn't held change nothing.
+    if (!on && this.engaged !== fx) return;
+    if (on && this.engaged === fx) return;
+    this.engaged = on ? fx : null;
+    this.dispatch<PerformanceFxChange>('fx-engaged', { fx, on });
+  }
+
+  private renderLearn(param: FxParam) {
+    if (!this.showMidi) return '';
+    return html`<midi-learn-button .mapper=${this.mapper} param=${param}></midi-learn-button>`;
+  }
+
+  private renderToggle(key: FxToggle, label: string) {
+    const on = this.settings[key];
+    return html`<div class="row">
+      <label>${label}</label>
+      <div class="actions">
+        <button class=${classMap({ on })} @click=${() => this.setParam(key, !on)}>${on ? 'ON' : 'OFF'}</button>
+        ${this.renderLearn(key)}
+      </div>
+    </div>`;
+  }
+
+  private renderLevel(key: FxLevel) {
+    const spec = FX_LEVELS.find((p) => p.key === key)!;
+    const value = this.settings[key];
+    return html`<div class="row">
+      <label for=${key}>${spec.label}</label>
+      <span class="value">${Math.round(value * 100)}%</span>
+      <input
+        id=${key}
+        type="range"
+        min=${spec.min}
+        max=${spec.max}
+        step=${spec.step}
+        title="Double-click to reset"
+        .value=${String(value)}
+        @input=${(e: Event) => this.setParam(key, Number((e.target as HTMLInputElement).value))}
+        @dblclick=${() => this.setParam(key, DEFAULT_FX_SETTINGS[key])} />
+      <div class="actions" style="grid-column: 1 / -1">${this.renderLearn(key)}</div>
+    </div>`;
+  }
+
+  private renderLength(key: FxLength, label: string) {
+    return html`<div class="row">
+      <label for=${key}>${label}</label>
+      <div class="actions">
+        <select
+          id=${key}
+          @change=${(e: Event) => this.setParam(key, Number((e.target as HTMLSelectElement).value))}>
+          ${FX_LENGTHS[key].map((d) => html`<option value=${d.beats} ?selected=${this.settings[key] === d.beats}>
+            ${d.label}
+          </option>`)}
+        </select>
+        ${this.renderLearn(key)}
+      </div>
+    </div>`;
+  }
+
+  private renderHold(fx: PerformanceFx, label: string, title: string) {
+    return html`<div class="row">
+      <button
+        class=${classMap({ hold: true, engaged: this.engaged === fx })}
+        title=${title}
+        @pointerdown=${() => this.engage(fx, true)}
+        @pointerup=${() => this.engage(fx, false)}
+        @pointerleave=${() => this.engage(fx, false)}>${label}</button>
+      <div class="actions">${this.renderLearn(fx)}</div>
+    </div>`;
+  }
+
+  render() {
+    return html`
+      <section>
+        ${this.renderToggle('delay', 'Delay')}
+        ${this.renderLength('delayBeats', 'Time')}
+        ${this.renderLevel('delayFeedback')}
+        ${this.renderLevel('delayMix')}
+      </section>
+      <section>
+        ${this.renderToggle('reverb', 'Reverb')}
+        <div class="row">
+          <label for="reverbImpulse">Space</label>
+          <div class="actions">
+            <select
+              id="reverbImpulse"
+              @change=${(e: Event) => this.setParam('reverbImpulse', (e.target as HTMLSelectElement).value as ReverbImpulse)}>
+              ${REVERB_IMPULSES.map((r) => html`<option value=${r.value} ?selected=${this.settings.reverbImpulse === r.value}>
+                ${r.label}
+              </option>`)}
+            </select>
+            ${this.renderLearn('reverbImpulse')}
+          </div>
+        </div>
+        ${this.renderLevel('reverbMix')}
+      </section>
+      <section>
+        ${this.renderHold('beatRepeat', 'REPEAT', 'Hold to loop the last beats heard')}
+        ${this.renderLength('repeatBeats', 'Length')}
+      </section>
+      <section>
+        ${this.renderHold('tapeStop', 'TAPE STOP', 'Hold to wind the music down to a halt')}
+        ${this.renderLength('tapeStopBeats', 'Length')}
+      </section>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'fx-panel': FxPanel;
+  }
+}
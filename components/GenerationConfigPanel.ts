@@ -0,0 +1,187 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+import type { LiveMusicGenerationConfig, Scale } from '@google/genai';
+
+import type { GenerationParam } from '../types';
+import type { ControlMapper } from '../utils/ControlMapper';
+import {
+  NUMERIC_PARAMS,
+  SCALES,
+  TOGGLE_PARAMS,
+  type NumericParamSpec,
+  type ToggleParam,
+} from '../utils/generationConfig';
+import './MidiLearnButton';
+
+/**
+ * Controls for the session's music generation config, each MIDI-learnable.
+ * Mapped CCs are applied by the owner of `mapper`, open panel or not.
+ */
+@customElement('generation-config-panel')
+export class GenerationConfigPanel extends LitElement {
+  static styles = css`
+    :host {
+      display: flex;
+      flex-direction: column;
+      gap: 8px;
+      padding: 12px;
+      width: 240px;
+      font-family: 'Courier New', monospace;
+      font-size: 12px;
+      background: rgba(0, 0, 0, 0.75);
+      border: 1px solid rgba(255, 255, 255, 0.3);
+      border-radius: 4px;
+      backdrop-filter: blur(5px);
+    }
+    .row {
+      display: grid;
+      grid-template-columns: 1fr auto;
+      align-items: center;
+      gap: 2px 8px;
+    }
+    label {
+      font-weight: 700;
+      text-transform: uppercase;
+    }
+    .value {
+      text-align: right;
+      color: #ffffffaa;
+    }
+    input[type='range'] {
+      grid-column: 1 / -1;
+      width: 100%;
+      accent-color: #fff;
+    }
+    .actions {
+      display: flex;
+      gap: 4px;
+      grid-column: 1 / -1;
+      justify-content: flex-end;
+    }
+    button {
+      font: inherit;
+      font-size: 10px;
+      color: #fff;
+      background: transparent;
+      border: 1px solid rgba(255, 255, 255, 0.3);
+      border-radius: 4px;
+      padding: 1px 6px;
+      cursor: pointer;
+      &.on {
+        background: #fff;
+        color: #000;
+      }
+    }
+    select,
+    input[type='number'] {
+      font: inherit;
+      width: 100%;
+      box-sizing: border-box;
+      background: rgba(255, 255, 255, 0.9);
+      color: #000;
+      border: none;
+      border-radius: 4px;
+      padding: 3px 6px;
+      grid-column: 1 / -1;
+    }
+  `;
+
+  @property({ type: Object }) config: LiveMusicGenerationConfig = {};
+  @property({ type: Boolean }) showMidi = false;
+  @property({ type: Object }) mapper: ControlMapper<GenerationParam> | null = null;
+
+  private setParam<K extends keyof LiveMusicGenerationConfig>(key: K, value: LiveMusicGenerationConfig[K]) {
+    const config = { ...this.config };
+    if (value === undefined) {
+      delete config[key];
+    } else {
+      config[key] = value;
+    }
+    this.config = config;
+    (this as unknown as HTMLElement).dispatchEvent(
+      new CustomEvent<LiveMusicGenerationConfig>('config-changed', { detail: config }),
+    );
+  }
+
+  private renderLearn(param: GenerationParam) {
+    if (!this.showMidi) return '';
+    return html`<midi-learn-button .mapper=${this.mapper} param=${param}></midi-learn-button>`;
+  }
+
+  private renderNumeric(spec: NumericParamSpec) {
+    const value = this.config[spec.key];
+    const isSet = value !== undefined;
+    return html`<div class="row">
+      <label for=${spec.key}>${spec.label}</label>
+      <span class="value">${isSet ? value : 'AUTO'}</span>
+      <input
+        id=${spec.key}
+        type="range"
+        min=${spec.min}
+        max=${spec.max}
+        step=${spec.step}
+        .value=${String(value ?? (spec.min + spec.max) / 2)}
+        @input=${(e: Event) => this.setParam(spec.key, Number((e.target as HTMLInputElement).value))} />
+      <div class="actions">
+        ${spec.optional ? html`<button
+              class=${classMap({ on: !isSet })}
+              @click=${() => this.setParam(spec.key, undefined)}>AUTO</button>` : ''}
+        ${this.renderLearn(spec.key)}
+      </div>
+    </div>`;
+  }
+
+  private renderToggle(key: ToggleParam, label: string) {
+    const on = this.config[key] === true;
+    return html`<div class="row">
+      <label>${label}</label>
+      <div class="actions">
+        <button class=${classMap({ on })} @click=${() => this.setParam(key, !on)}>${on ? 'ON' : 'OFF'}</button>
+        ${this.renderLearn(key)}
+      </div>
+    </div>`;
+  }
+
+  private handleSeedChange(e: Event) {
+    const text = (e.target as HTMLInputElement).value.trim();
+    const seed = Number.parseInt(text, 10);
+    this.setParam('seed', Number.isNaN(seed) ? undefined : seed);
+  }
+
+  render() {
+    return html`
+      ${NUMERIC_PARAMS.map((spec) => this.renderNumeric(spec))}
+      <div class="row">
+        <label for="scale">Scale</label>
+        <select
+          id="scale"
+          @change=${(e: Event) => this.setParam('scale', (e.target as HTMLSelectElement).value as Scale)}>
+          ${SCALES.map((s) => html`<option value=${s.value} ?selected=${(this.config.scale ?? SCALES[0].value) === s.value}>
+            ${s.label}
+          </option>`)}
+        </select>
+      </div>
+      <div class="row">
+        <label for="seed">Seed</label>
+        <input
+          id="seed"
+          type="number"
+          placeholder="Random"
+          .value=${this.config.seed === undefined ? '' : String(this.config.seed)}
+          @change=${this.handleSeedChange} />
+      </div>
+      ${TOGGLE_PARAMS.map(({ key, label }) => this.renderToggle(key, label))}
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'generation-config-panel': GenerationConfigPanel;
+  }
+}
@@ -0,0 +1,216 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement, svg } from 'lit';
+import { customElement, property, query } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+
+import type { GestureState, GestureTake, Prompt } from '../types';
+
+/** Width of the lanes in SVG units, and the height of each. */
+const TIMELINE_WIDTH = 600;
+const LANE_HEIGHT = 18;
+
+/** One prompt's weight over a take, as a stepped line. */
+interface Lane {
+  promptId: string;
+  label: string;
+  color: string;
+  points: { time: number; weight: number }[];
+  /** Times at which the prompt's text changed. */
+  textChanges: number[];
+}
+
+function formatTime(ms: number) {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+}
+
+/** Builds a lane for each prompt the take moves, in grid order where it can. */
+function buildLanes(take: GestureTake, prompts: Map<string, Prompt>): Lane[] {
+  const lanes = new Map<string, Lane>();
+  const lastText = new Map<string, string>();
+  for (const gesture of [...take.initial, ...take.gestures]) {
+    let lane = lanes.get(gesture.promptId);
+    if (!lane) {
+      const prompt = prompts.get(gesture.promptId);
+      lane = {
+        promptId: gesture.promptId,
+        label: gesture.text,
+        color: prompt?.color ?? '#ffffff',
+        points: [],
+        textChanges: [],
+      };
+      lanes.set(gesture.promptId, lane);
+    }
+    const previous = lastText.get(gesture.promptId);
+    if (previous !== undefined && previous !== gesture.text) lane.textChanges.push(gesture.time);
+    lastText.set(gesture.promptId, gesture.text);
+    lane.points.push({ time: gesture.time, weight: gesture.weight });
+  }
+  const order = [...prompts.keys()];
+  const rank = (id: string) => (order.includes(id) ? order.indexOf(id) : order.length);
+  // Lanes that stay silent for the whole take would only add noise.
+  return [...lanes.values()]
+    .filter((lane) => lane.points.some((p) => p.weight > 0))
+    .sort((a, b) => rank(a.promptId) - rank(b.promptId));
+}
+
+/** Transport for gesture takes, above a view of each prompt's weight over the take. */
+@customElement('gesture-timeline')
+export class GestureTimeline extends LitElement {
+  static styles = css`
+    :host {
+      display: flex;
+      flex-direction: column;
+      gap: 8px;
+      padding: 12px;
+      font-family: 'Courier New', monospace;
+      font-size: 12px;
+      color: #fff;
+      background: rgba(0, 0, 0, 0.85);
+      border: 1px solid rgba(255, 255, 255, 0.3);
+      border-radius: 4px;
+      backdrop-filter: blur(5px);
+    }
+    .transport {
+      display: flex;
+      gap: 6px;
+      align-items: center;
+      span {
+        flex: 1;
+        text-align: right;
+        color: #ffffffaa;
+      }
+    }
+    button {
+      font: inherit;
+      font-weight: 600;
+      color: #fff;
+      background: transparent;
+      border: 1px solid rgba(255, 255, 255, 0.3);
+      border-radius: 4px;
+      padding: 2px 8px;
+      cursor: pointer;
+      &:hover {
+        border-color: #fff;
+      }
+      &.on {
+        background: #fff;
+        color: #000;
+      }
+      &.recording {
+        background: #ff0044;
+        border-color: #ff0044;
+        color: #fff;
+      }
+      &:disabled {
+        opacity: 0.4;
+        cursor: default;
+      }
+    }
+    .lanes {
+      display: grid;
+      grid-template-columns: 10em 1fr;
+      align-items: center;
+      column-gap: 8px;
+    }
+    .label {
+      overflow: hidden;
+      white-space: nowrap;
+      text-overflow: ellipsis;
+      height: 18px;
+      line-height: 18px;
+    }
+    svg {
+      width: 100%;
+      display: block;
+    }
+    .empty {
+      color: #ffffff66;
+    }
+  `;
+
+  @property({ type: Object }) take: GestureTake | null = null;
+  @property({ type: String }) gestureState: GestureState = 'idle';
+  /** Time into the take in ms. */
+  @property({ type: Number }) position = 0;
+  @property({ type: Object }) prompts = new Map<string, Prompt>();
+
+  @query('#take-input') private takeInput!: HTMLInputElement;
+
+  private dispatch<T>(type: string, detail?: T) {
+    (this as unknown as HTMLElement).dispatchEvent(new CustomEvent<T>(type, { detail }));
+  }
+
+  private handleLoad() {
+    const file = this.takeInput.files?.[0];
+    this.takeInput.value = '';
+    if (file) this.dispatch<File>('take-load', file);
+  }
+
+  private renderLane(lane: Lane, duration: number) {
+    const x = (time: number) => (duration > 0 ? (time / duration) * TIMELINE_WIDTH : 0);
+    const y = (weight: number) => LANE_HEIGHT - 1 - (weight / 2) * (LANE_HEIGHT - 2);
+    // Each weight holds until the next gesture.
+    let path = '';
+    lane.points.forEach(({ time, weight }, i) => {
+      path += i === 0 ? `M ${x(time)} ${y(weight)}` : ` H ${x(time)} V ${y(weight)}`;
+    });
+    path += ` H ${TIMELINE_WIDTH}`;
+    return html`
+      <div class="label" title=${lane.label} style="color: ${lane.color}">${lane.label}</div>
+      <svg viewBox="0 0 ${TIMELINE_WIDTH} ${LANE_HEIGHT}" preserveAspectRatio="none" height=${LANE_HEIGHT}>
+        <rect width=${TIMELINE_WIDTH} height=${LANE_HEIGHT} fill="#ffffff0d" />
+        ${lane.textChanges.map((time) => svg`<line
+          x1=${x(time)} x2=${x(time)} y1="0" y2=${LANE_HEIGHT} stroke="#ffffff66" stroke-dasharray="2 2" />`)}
+        <path d=${path} fill="none" stroke=${lane.color} stroke-width="1.5" vector-effect="non-scaling-stroke" />
+        ${this.gestureState !== 'idle' ? svg`<line
+          x1=${x(this.position)} x2=${x(this.position)} y1="0" y2=${LANE_HEIGHT}
+          stroke="#fff" vector-effect="non-scaling-stroke" />` : ''}
+      </svg>`;
+  }
+
+  render() {
+    const state = this.gestureState;
+    const take = this.take;
+    const hasTake = take !== null && take.duration > 0;
+    const lanes = take ? buildLanes(take, this.prompts) : [];
+    const duration = take?.duration ?? 0;
+    return html`
+      <div class="transport">
+        <button
+          class=${classMap({ recording: state === 'recording' })}
+          title="Record a new take of the grid's changes"
+          @click=${() => this.dispatch('take-record')}>REC</button>
+        <button
+          class=${classMap({ on: state === 'playing' })}
+          ?disabled=${!hasTake}
+          title="Replay the take onto the grid"
+          @click=${() => this.dispatch('take-play')}>PLAY</button>
+        <button
+          class=${classMap({ recording: state === 'overdubbing' })}
+          ?disabled=${!hasTake}
+          title="Replay the take; prompts you touch are re-recorded from then on"
+          @click=${() => this.dispatch('take-overdub')}>DUB</button>
+        <button ?disabled=${state === 'idle'} @click=${() => this.dispatch('take-stop')}>STOP</button>
+        <button
+          ?disabled=${!hasTake || state !== 'idle'}
+          @click=${() => this.dispatch('take-save')}>SAVE</button>
+        <button ?disabled=${state !== 'idle'} @click=${() => this.takeInput.click()}>LOAD</button>
+        <input id="take-input" type="file" accept="application/json,.json" hidden @change=${this.handleLoad} />
+        <span>${state === 'idle' ? formatTime(duration) : `${formatTime(this.position)} / ${formatTime(state === 'recording' ? this.position : duration)}`}</span>
+      </div>
+      ${lanes.length > 0
+        ? html`<div class="lanes">${lanes.map((lane) => this.renderLane(lane, duration))}</div>`
+        : html`<div class="empty">${state === 'recording' ? 'Recording…' : 'No take recorded'}</div>`}
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'gesture-timeline': GestureTimeline;
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+
+import type { KeyAction, Keymap } from '../types';
+import {
+  DEFAULT_KEYMAP,
+  KEY_ACTION_GROUPS,
+  chordFromEvent,
+  formatChord,
+  rebind,
+  type KeyActionGroup,
+} from '../utils/keymap';
+
+/** Lists the keyboard bindings; clicking one waits for a new key. */
+@customElement('keymap-overlay')
+export class KeymapOverlay extends LitElement {
+  static styles = css`
+    :host {
+      display: flex;
+      flex-direction: column;
+      gap: 12px;
+      padding: 16px;
+      font-family: 'Courier New', monospace;
+      font-size: 12px;
+      color: #fff;
+      background: rgba(0, 0, 0, 0.85);
+      border: 1px solid rgba(255, 255, 255, 0.3);
+      border-radius: 4px;
+      backdrop-filter: blur(5px);
+    }
+    h3 {
+      margin: 0 0 6px;
+      font-size: inherit;
+      text-transform: uppercase;
+      color: #ffffffaa;
+    }
+    .bindings {
+      display: grid;
+      grid-template-columns: repeat(2, auto auto);
+      align-items: center;
+      gap: 4px 8px;
+      &.grid {
+        grid-template-columns: repeat(4, auto auto);
+      }
+    }
+    button {
+      font: inherit;
+      color: #fff;
+      background: transparent;
+      border: 1px solid rgba(255, 255, 255, 0.3);
+      border-radius: 4px;
+      padding: 1px 6px;
+      cursor: pointer;
+      &:hover {
+        border-color: #fff;
+      }
+    }
+    .key {
+      min-width: 4em;
+      font-weight: 700;
+      &.unbound {
+        color: #ffffff55;
+      }
+      &.learn {
+        color: #ffcc00;
+        border-color: #ffcc00;
+      }
+    }
+    .actions {
+      display: flex;
+      gap: 8px;
+      align-items: center;
+      justify-content: flex-end;
+      span {
+        flex: 1;
+        color: #ffffffaa;
+      }
+    }
+  `;
+
+  @property({ type: Object }) keymap: Keymap = DEFAULT_KEYMAP;
+  @state() private rebinding: KeyAction | null = null;
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    this.stopRebinding();
+  }
+
+  private dispatch<T>(type: string, detail?: T) {
+    (this as unknown as HTMLElement).dispatchEvent(new CustomEvent<T>(type, { detail }));
+  }
+
+  private startRebinding(action: KeyAction) {
+    this.stopRebinding();
+    this.rebinding = action;
+    // Capturing on window runs before the grid's own key handler, which the
+    // pressed key must not also trigger.
+    window.addEventListener('keydown', this.handleRebindKey, { capture: true });
+  }
+
+  private stopRebinding() {
+    window.removeEventListener('keydown', this.handleRebindKey, { capture: true });
+    this.rebinding = null;
+  }
+
+  /** Escape cancels, Backspace or Delete unbinds, any other key is bound. */
+  private readonly handleRebindKey = (e: KeyboardEvent) => {
+    const action = this.rebinding;
+    if (action === null) return;
+    e.preventDefault();
+    e.stopImmediatePropagation();
+    if (e.code === 'Escape') {
+      this.stopRebinding();
+      return;
+    }
+    if (e.code === 'Backspace' || e.code === 'Delete') {
+      this.stopRebinding();
+      this.dispatch<Keymap>('keymap-changed', { ...this.keymap, [action]: '' });
+      return;
+    }
+    const chord = chordFromEvent(e);
+    if (chord === null) return;
+    this.stopRebinding();
+    this.dispatch<Keymap>('keymap-changed', rebind(this.keymap, action, chord));
+  };
+
+  private renderGroup({ title, actions }: KeyActionGroup) {
+    return html`<section>
+      <h3>${title}</h3>
+      <div class=${classMap({ bindings: true, grid: actions.length > 10 })}>
+        ${actions.map(({ action, label }) => {
+          const chord = this.keymap[action] ?? '';
+          const learning = this.rebinding === action;
+          return html`
+            <span>${label}</span>
+            <button
+              class=${classMap({ key: true, unbound: !chord, learn: learning })}
+              title="Click, then press a key"
+              @click=${() => (learning ? this.stopRebinding() : this.startRebinding(action))}>
+              ${learning ? 'PRESS' : chord ? formatChord(chord) : '-'}
+            </button>`;
+        })}
+      </div>
+    </section>`;
+  }
+
+  render() {
+    return html`
+      ${KEY_ACTION_GROUPS.map((group) => this.renderGroup(group))}
+      <div class="actions">
+        <span>${this.rebinding ? 'Esc cancels, Backspace unbinds' : ''}</span>
+        <button @click=${() => this.dispatch<Keymap>('keymap-changed', { ...DEFAULT_KEYMAP })}>RESET</button>
+        <button @click=${() => this.dispatch('close')}>CLOSE</button>
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'keymap-overlay': KeymapOverlay;
+  }
+}
@@ -0,0 +1,163 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+
+import type { MasterParam, MasterSettings } from '../types';
+import type { ControlMapper } from '../utils/ControlMapper';
+import {
+  BAND_KILLS,
+  DEFAULT_MASTER_SETTINGS,
+  MASTER_PARAMS,
+  type MasterParamSpec,
+  type MasterToggle,
+} from '../utils/masterSettings';
+import './MidiLearnButton';
+
+function formatValue(spec: MasterParamSpec, value: number) {
+  switch (spec.key) {
+    case 'volume':
+      return `${Math.round(value * 100)}%`;
+    case 'filter':
+      if (value === 0) return 'OPEN';
+      return `${value < 0 ? 'LP' : 'HP'} ${Math.round(Math.abs(value) * 100)}%`;
+    default:
+      return `${value > 0 ? '+' : ''}${value} ${spec.unit}`;
+  }
+}
+
+/** Fader, EQ, filter and limiter of the master chain, each MIDI-learnable. */
+@customElement('master-panel')
+export class MasterPanel extends LitElement {
+  static styles = css`
+    :host {
+      display: flex;
+      flex-direction: column;
+      gap: 8px;
+      padding: 12px;
+      width: 240px;
+      font-family: 'Courier New', monospace;
+      font-size: 12px;
+      background: rgba(0, 0, 0, 0.75);
+      border: 1px solid rgba(255, 255, 255, 0.3);
+      border-radius: 4px;
+      backdrop-filter: blur(5px);
+    }
+    .row {
+      display: grid;
+      grid-template-columns: 1fr auto;
+      align-items: center;
+      gap: 2px 8px;
+    }
+    label {
+      font-weight: 700;
+      text-transform: uppercase;
+    }
+    .value {
+      text-align: right;
+      color: #ffffffaa;
+    }
+    input[type='range'] {
+      grid-column: 1 / -1;
+      width: 100%;
+      accent-color: #fff;
+    }
+    .actions {
+      display: flex;
+      gap: 4px;
+      grid-column: 1 / -1;
+      justify-content: flex-end;
+    }
+    button {
+      font: inherit;
+      font-size: 10px;
+      color: #fff;
+      background: transparent;
+      border: 1px solid rgba(255, 255, 255, 0.3);
+      border-radius: 4px;
+      padding: 1px 6px;
+      cursor: pointer;
+      &.on {
+        background: #fff;
+        color: #000;
+      }
+      &.kill {
+        background: #ff0044;
+        border-color: #ff0044;
+      }
+    }
+  `;
+
+  @property({ type: Object }) settings: MasterSettings = DEFAULT_MASTER_SETTINGS;
+  @property({ type: Boolean }) showMidi = false;
+  @property({ type: Object }) mapper: ControlMapper<MasterParam> | null = null;
+
+  private setParam<K extends MasterParam>(key: K, value: MasterSettings[K]) {
+    if (this.settings[key] === value) return;
+    const settings = { ...this.settings, [key]: value };
+    this.settings = settings;
+    (this as unknown as HTMLElement).dispatchEvent(
+      new CustomEvent<MasterSettings>('master-changed', { detail: settings }),
+    );
+  }
+
+  private renderLearn(param: MasterParam) {
+    if (!this.showMidi) return '';
+    return html`<midi-learn-button .mapper=${this.mapper} param=${param}></midi-learn-button>`;
+  }
+
+  private renderKill(key: MasterToggle) {
+    const on = this.settings[key];
+    return html`<button class=${classMap({ kill: on })} @click=${() => this.setParam(key, !on)}>KILL</button>
+      ${this.renderLearn(key)}`;
+  }
+
+  private renderNumeric(spec: MasterParamSpec) {
+    const value = this.settings[spec.key];
+    const kill = BAND_KILLS[spec.key];
+    return html`<div class="row">
+      <label for=${spec.key}>${spec.label}</label>
+      <span class="value">${formatValue(spec, value)}</span>
+      <input
+        id=${spec.key}
+        type="range"
+        min=${spec.min}
+        max=${spec.max}
+        step=${spec.step}
+        title="Double-click to reset"
+        .value=${String(value)}
+        @input=${(e: Event) => this.setParam(spec.key, Number((e.target as HTMLInputElement).value))}
+        @dblclick=${() => this.setParam(spec.key, DEFAULT_MASTER_SETTINGS[spec.key])} />
+      <div class="actions">
+        ${kill ? this.renderKill(kill) : ''}
+        ${this.renderLearn(spec.key)}
+      </div>
+    </div>`;
+  }
+
+  render() {
+    const limiter = this.settings.limiter;
+    return html`
+      ${MASTER_PARAMS.map((spec) => this.renderNumeric(spec))}
+      <div class="row">
+        <label>Limiter</label>
+        <div class="actions">
+          <button
+            class=${classMap({ on: limiter })}
+            title="Keep peaks below -1 dBFS"
+            @click=${() => this.setParam('limiter', !limiter)}>${limiter ? 'ON' : 'OFF'}</button>
+          ${this.renderLearn('limiter')}
+        </div>
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'master-panel': MasterPanel;
+  }
+}
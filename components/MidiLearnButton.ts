@@ -0,0 +1,60 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+
+import type { ControlMapper } from '../utils/ControlMapper';
+
+/** Shows the CC a panel control is mapped to, and learns a new one when clicked. */
+@customElement('midi-learn-button')
+export class MidiLearnButton extends LitElement {
+  static styles = css`
+    button {
+      font: inherit;
+      font-size: 10px;
+      color: #fff;
+      background: transparent;
+      border: 1px solid rgba(255, 255, 255, 0.3);
+      border-radius: 4px;
+      padding: 1px 6px;
+      cursor: pointer;
+      &.learn {
+        color: #ffcc00;
+        border-color: #ffcc00;
+      }
+    }
+  `;
+
+  @property({ type: Object }) mapper: ControlMapper<string> | null = null;
+  @property({ type: String }) param = '';
+
+  private readonly handleChanged = () => (this as any).requestUpdate();
+
+  connectedCallback() {
+    super.connectedCallback();
+    this.mapper?.addEventListener('changed', this.handleChanged);
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    this.mapper?.removeEventListener('changed', this.handleChanged);
+  }
+
+  render() {
+    if (!this.mapper) return '';
+    const mapping = this.mapper.mappingFor(this.param);
+    const learning = this.mapper.learning === this.param;
+    return html`<button class=${classMap({ learn: learning })} @click=${() => this.mapper?.toggleLearn(this.param)}>
+      ${learning ? 'LEARN' : mapping ? `CC:${mapping.cc}` : 'CC:-'}
+    </button>`;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'midi-learn-button': MidiLearnButton;
+  }
+}
@@ -0,0 +1,284 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, state } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+
+import type { AppError, ErrorAction, Severity } from '../utils/errors';
+
+/** Notifications on screen at once; the rest wait their turn. */
+const MAX_VISIBLE = 3;
+
+/** How long each severity stays up, in ms; errors stay until dismissed. */
+const TIMEOUTS: Record<Severity, number | null> = {
+  info: 4000,
+  warning: 8000,
+  error: null,
+};
+
+/** Entries kept in the log. */
+const MAX_LOG_ENTRIES = 200;
+
+interface Notification {
+  id: number;
+  error: AppError;
+  time: number;
+}
+
+function isSameKind(a: AppError, b: AppError) {
+  return a.code === b.code && a.source === b.source && a.subject === b.subject;
+}
+
+function renderMessageWithLinks(message: string) {
+  const urlRegex = /(https?:\/\/[^\s]+)/g;
+  const parts = message.split(urlRegex);
+  return parts.map((part, i) => {
+    if (i % 2 === 0) return part;
+    return html`<a href=${part} target="_blank" rel="noopener">${part}</a>`;
+  });
+}
+
+/**
+ * Stacks notifications for errors and notices, dismissing each after a
+ * timeout for its severity, and keeps a log of them all. A notification
+ * with the same code, source and subject as one on screen replaces it, so repeated
+ * notices such as reconnect attempts don't pile up, while each filtered
+ * prompt keeps its own.
+ */
+@customElement('notification-center')
+export class NotificationCenter extends LitElement {
+  static styles = css`
+    :host {
+      font-family: 'Courier New', monospace;
+      font-size: 12px;
+      color: #fff;
+    }
+    #stack {
+      position: fixed;
+      top: 20px;
+      left: 50%;
+      transform: translateX(-50%);
+      z-index: 100;
+      display: flex;
+      flex-direction: column;
+      gap: 8px;
+      width: min(450px, 80vw);
+    }
+    .notification {
+      line-height: 1.6;
+      background-color: #000;
+      padding: 12px 15px;
+      border-radius: 5px;
+      border: 2px solid #fff;
+      box-shadow: 0 0 10px 0 rgba(0, 0, 0, 0.5);
+      display: grid;
+      grid-template-columns: 1fr auto;
+      gap: 8px 15px;
+      align-items: center;
+      text-wrap: pretty;
+      &.info {
+        border-color: #ffffff88;
+      }
+      &.warning {
+        border-color: #ffcc00;
+      }
+      &.error {
+        border-color: #ff0044;
+      }
+    }
+    .message {
+      white-space: pre-line;
+    }
+    .actions {
+      grid-column: 1 / -1;
+      display: flex;
+      gap: 8px;
+    }
+    button {
+      font: inherit;
+      color: #fff;
+      background: transparent;
+      border: 1px solid rgba(255, 255, 255, 0.5);
+      border-radius: 4px;
+      padding: 2px 8px;
+      cursor: pointer;
+      &:hover {
+        border-color: #fff;
+      }
+    }
+    .dismiss {
+      border: none;
+      border-radius: 100px;
+      aspect-ratio: 1;
+      color: #000;
+      background: #fff;
+      padding: 2px 6px;
+    }
+    a {
+      color: #acacac;
+      text-decoration: underline;
+    }
+    #log-toggle {
+      position: fixed;
+      right: 20px;
+      bottom: 60px;
+      z-index: 100;
+      background: rgba(0, 0, 0, 0.6);
+      &.unread {
+        border-color: #ff0044;
+      }
+    }
+    #log {
+      position: fixed;
+      right: 20px;
+      bottom: 95px;
+      z-index: 100;
+      width: min(560px, 90vw);
+      max-height: 50vh;
+      overflow-y: auto;
+      padding: 12px;
+      background: rgba(0, 0, 0, 0.85);
+      border: 1px solid rgba(255, 255, 255, 0.3);
+      border-radius: 4px;
+      backdrop-filter: blur(5px);
+      display: grid;
+      grid-template-columns: auto auto auto 1fr;
+      gap: 4px 10px;
+      align-items: baseline;
+      .time, .source {
+        color: #ffffffaa;
+      }
+      .info {
+        color: #ffffffaa;
+      }
+      .warning {
+        color: #ffcc00;
+      }
+      .error {
+        color: #ff0044;
+      }
+      .message {
+        overflow-wrap: anywhere;
+      }
+      .empty {
+        grid-column: 1 / -1;
+        color: #ffffff66;
+      }
+    }
+  `;
+
+  @state() private visible: Notification[] = [];
+  @state() private log: Notification[] = [];
+  @state() private showLog = false;
+  /** Whether errors were logged since the log was last opened. */
+  @state() private unread = false;
+  private queue: Notification[] = [];
+  private timers = new Map<number, number>();
+  private nextId = 0;
+
+  notify(error: AppError) {
+    const notification = { id: this.nextId++, error, time: Date.now() };
+    this.log = [notification, ...this.log].slice(0, MAX_LOG_ENTRIES);
+    if (error.severity === 'error' && !this.showLog) this.unread = true;
+
+    const same = this.visible.find((n) => isSameKind(n.error, error));
+    if (same) {
+      this.clearTimer(same.id);
+      this.visible = this.visible.map((n) => (n === same ? notification : n));
+      this.startTimer(notification);
+    } else if (this.visible.length < MAX_VISIBLE) {
+      this.visible = [...this.visible, notification];
+      this.startTimer(notification);
+    } else {
+      this.queue = [...this.queue.filter((n) => !isSameKind(n.error, error)), notification];
+    }
+  }
+
+  /** Dismisses every notification with this code, e.g. once the problem is gone. */
+  dismissCode(code: AppError['code']) {
+    this.queue = this.queue.filter((n) => n.error.code !== code);
+    for (const n of this.visible) {
+      if (n.error.code === code) this.dismiss(n.id);
+    }
+  }
+
+  private dismiss(id: number) {
+    this.clearTimer(id);
+    this.visible = this.visible.filter((n) => n.id !== id);
+    const next = this.queue[0];
+    if (next && this.visible.length < MAX_VISIBLE) {
+      this.queue = this.queue.slice(1);
+      this.visible = [...this.visible, next];
+      this.startTimer(next);
+    }
+  }
+
+  private startTimer({ id, error }: Notification) {
+    const timeout = TIMEOUTS[error.severity];
+    // Errors that offer a way out wait for it, whatever their severity.
+    if (timeout === null || error.actions.length > 0) return;
+    this.timers.set(id, window.setTimeout(() => this.dismiss(id), timeout));
+  }
+
+  private clearTimer(id: number) {
+    const timer = this.timers.get(id);
+    if (timer !== undefined) window.clearTimeout(timer);
+    this.timers.delete(id);
+  }
+
+  private runAction(id: number, action: ErrorAction) {
+    this.dismiss(id);
+    (this as unknown as HTMLElement).dispatchEvent(
+      new CustomEvent<ErrorAction>('notification-action', { detail: action }),
+    );
+  }
+
+  private toggleLog() {
+    this.showLog = !this.showLog;
+    this.unread = false;
+  }
+
+  private renderNotification({ id, error }: Notification) {
+    return html`<div class=${classMap({ notification: true, [error.severity]: true })} role="alert">
+      <div class="message">${renderMessageWithLinks(error.message)}</div>
+      <button class="dismiss" title="Dismiss" @click=${() => this.dismiss(id)}>✕</button>
+      ${error.actions.length > 0 ? html`<div class="actions">
+        ${error.actions.map((action) => html`<button @click=${() => this.runAction(id, action)}>
+          ${action.label}
+        </button>`)}
+      </div>` : ''}
+    </div>`;
+  }
+
+  private renderLog() {
+    return html`<div id="log">
+      ${this.log.length === 0 ? html`<span class="empty">Nothing logged</span>` : ''}
+      ${this.log.map(({ error, time }) => html`
+        <span class="time">${new Date(time).toLocaleTimeString()}</span>
+        <span class=${error.severity}>${error.severity.toUpperCase()}</span>
+        <span class="source">${error.source}/${error.code}</span>
+        <span class="message">${error.message}</span>
+      `)}
+    </div>`;
+  }
+
+  render() {
+    return html`
+      <div id="stack">${this.visible.map((n) => this.renderNotification(n))}</div>
+      ${this.showLog ? this.renderLog() : ''}
+      <button
+        id="log-toggle"
+        class=${classMap({ unread: this.unread })}
+        title="Every notification this session"
+        @click=${this.toggleLog}>LOG ${this.log.length}</button>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'notification-center': NotificationCenter;
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+
+import type { AudioOutput } from '../types';
+
+/** Picks the audio outputs of the main mix and the cue session, and the cue level. */
+@customElement('output-panel')
+export class OutputPanel extends LitElement {
+  static styles = css`
+    :host {
+      display: flex;
+      flex-direction: column;
+      gap: 8px;
+      padding: 12px;
+      width: 240px;
+      font-family: 'Courier New', monospace;
+      font-size: 12px;
+      background: rgba(0, 0, 0, 0.75);
+      border: 1px solid rgba(255, 255, 255, 0.3);
+      border-radius: 4px;
+      backdrop-filter: blur(5px);
+    }
+    .row {
+      display: grid;
+      grid-template-columns: 1fr auto;
+      align-items: center;
+      gap: 2px 8px;
+    }
+    label {
+      font-weight: 700;
+      text-transform: uppercase;
+    }
+    .value {
+      text-align: right;
+      color: #ffffffaa;
+    }
+    input[type='range'] {
+      grid-column: 1 / -1;
+      width: 100%;
+      accent-color: #fff;
+    }
+    select {
+      font: inherit;
+      width: 100%;
+      box-sizing: border-box;
+      background: rgba(255, 255, 255, 0.9);
+      color: #000;
+      border: none;
+      border-radius: 4px;
+      padding: 3px 6px;
+      grid-column: 1 / -1;
+    }
+    .note {
+      color: #ffffffaa;
+      text-wrap: pretty;
+    }
+  `;
+
+  @property({ type: Array }) outputs: AudioOutput[] = [];
+  /** Whether the browser can play to outputs other than the default. */
+  @property({ type: Boolean }) selectable = false;
+  @property({ type: String }) outputId: string | null = null;
+  @property({ type: String }) cueOutputId: string | null = null;
+  @property({ type: Number }) cueVolume = 1;
+
+  private dispatch<T>(type: string, detail?: T) {
+    (this as unknown as HTMLElement).dispatchEvent(new CustomEvent<T>(type, { detail }));
+  }
+
+  private renderSelect(id: string, selected: string | null, type: string) {
+    // A saved device that is unplugged stays chosen, so it is used again once it is back.
+    const missing = selected !== null && !this.outputs.some((o) => o.id === selected);
+    return html`<select
+      id=${id}
+      ?disabled=${!this.selectable}
+      @change=${(e: Event) => this.dispatch<string | null>(type, (e.target as HTMLSelectElement).value || null)}>
+      <option value="" ?selected=${selected === null}>Default output</option>
+      ${this.outputs.map((o) => html`<option value=${o.id} ?selected=${o.id === selected}>${o.name}</option>`)}
+      ${missing ? html`<option value=${selected} selected>Unavailable output</option>` : ''}
+    </select>`;
+  }
+
+  render() {
+    return html`
+      <div class="row">
+        <label for="main-output">Main</label>
+        ${this.renderSelect('main-output', this.outputId, 'output-changed')}
+      </div>
+      <div class="row">
+        <label for="cue-output">Cue</label>
+        ${this.renderSelect('cue-output', this.cueOutputId, 'cue-output-changed')}
+      </div>
+      <div class="row">
+        <label for="cue-volume">Cue volume</label>
+        <span class="value">${Math.round(this.cueVolume * 100)}%</span>
+        <input
+          id="cue-volume"
+          type="range"
+          min="0"
+          max="1"
+          step="0.01"
+          .value=${String(this.cueVolume)}
+          @input=${(e: Event) => this.dispatch<number>('cue-volume-changed', Number((e.target as HTMLInputElement).value))} />
+      </div>
+      ${this.selectable ? '' : html`<div class="note">This browser plays everything to the default output.</div>`}
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'output-panel': OutputPanel;
+  }
+}
@@ -4,21 +4,77 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import { css, html, LitElement } from 'lit';
-import { customElement, property, query } from 'lit/decorators.js';
+import { customElement, property, query, state } from 'lit/decorators.js';
 import { classMap } from 'lit/directives/class-map.js';
 import { styleMap } from 'lit/directives/style-map.js';
 
 import './WeightKnob';
 import type { WeightKnob } from './WeightKnob';
 
-import type { MidiDispatcher } from '../utils/MidiDispatcher';
-import type { Prompt, ControlChange } from '../types';
+import { matchesDevice, type MidiDispatcher } from '../utils/MidiDispatcher';
+import {
+  ControlMapper,
+  DEFAULT_CONTROL_RESPONSE,
+  ENCODER_MODES,
+  RESPONSE_CURVES,
+} from '../utils/controlResponse';
+import {
+  DEFAULT_AUTOMATION,
+  DEFAULT_ENVELOPE,
+  DEFAULT_LFO,
+  LFO_BEATS,
+  LFO_SHAPES,
+  LOOP_BEATS,
+  hasAutomation,
+} from '../utils/AutomationEngine';
+import type {
+  Prompt,
+  Automation,
+  ButtonMapping,
+  Envelope,
+  Lfo,
+  LfoShape,
+  ControlChange,
+  ControlResponse,
+  EncoderMode,
+  HighResControlChange,
+  NoteMessage,
+  ResponseCurve,
+} from '../types';
 
-/** A single prompt input associated with a MIDI CC. */
+const CURVE_LABELS: Record<ResponseCurve, string> = { linear: 'LIN', log: 'LOG', exp: 'EXP' };
+/** Something waiting for a pad or button press to be assigned to it. */
+type LearnTarget = 'mute' | 'solo' | 'envelope';
+
+const LFO_LABELS: Record<LfoShape, string> = { sine: 'SINE', triangle: 'TRI', square: 'SQR', random: 'RND' };
+
+const ENVELOPE_FIELDS: { key: Exclude<keyof Envelope, 'note'>; label: string; min: number; max: number; step: number }[] = [
+  { key: 'attack', label: 'ATTACK', min: 0, max: 60, step: 0.1 },
+  { key: 'decay', label: 'DECAY', min: 0, max: 60, step: 0.1 },
+  { key: 'sustain', label: 'SUSTAIN', min: 0, max: 1, step: 0.05 },
+  { key: 'release', label: 'RELEASE', min: 0, max: 60, step: 0.1 },
+  { key: 'depth', label: 'DEPTH', min: -2, max: 2, step: 0.05 },
+];
+
+/** Beats as a short label, e.g. `1/4 BEAT` or `8 BEATS`. */
+function formatBeats(beats: number) {
+  if (beats < 1) return `1/${1 / beats} BEAT`;
+  return `${beats} BEAT${beats === 1 ? '' : 'S'}`;
+}
+
+const MODE_LABELS: Record<EncoderMode, string> = {
+  'absolute': 'ABS',
+  'relative-twos': 'REL 2C',
+  'relative-offset': 'REL 64',
+  'relative-signed': 'REL SB',
+};
+
+/** A single prompt input associated with a MIDI CC and, optionally, a pad note. */
 @customElement('prompt-controller')
 export class PromptController extends LitElement {
   static styles = css`
     .prompt {
+      position: relative;
       width: 100%;
       display: flex;
       flex-direction: column;
@@ -33,7 +89,63 @@ export class PromptController extends LitElement {
       width: 75%;
       flex-shrink: 0;
     }
-    #midi {
+    #edit-row {
+      display: flex;
+      gap: 4px;
+      align-items: center;
+      margin-bottom: 6px;
+      input[type='color'] {
+        width: 3vmin;
+        height: 2vmin;
+        padding: 0;
+        border: 1px solid #ffffff44;
+        border-radius: 4px;
+        background: none;
+        cursor: pointer;
+      }
+      button {
+        font-size: 1.2vmin;
+        color: #ffffffaa;
+        background: #000000aa;
+        border: 1px solid #ffffff44;
+        border-radius: 4px;
+        cursor: pointer;
+      }
+    }
+    .editing weight-knob {
+      /* The cell is dragged to reorder it instead. */
+      pointer-events: none;
+    }
+    #midi-row, #toggles {
+      display: flex;
+      gap: 4px;
+      margin-top: 6px;
+    }
+    #toggles button {
+      font-family: 'Courier New', monospace;
+      font-size: 1.2vmin;
+      font-weight: 700;
+      padding: 1px 6px;
+      border: 1px solid #ffffff44;
+      border-radius: 4px;
+      color: #ffffffaa;
+      background: #000000aa;
+      cursor: pointer;
+      user-select: none;
+      &.on {
+        color: #000;
+        background: #fff;
+      }
+      &.solo.on {
+        background: #ffcc00;
+        border-color: #ffcc00;
+      }
+      &.auto.on {
+        color: #fff;
+        border-color: #00ffcc;
+      }
+    }
+    #midi, #response-toggle {
       font-family: 'Courier New', monospace;
       text-align: center;
       font-size: 1.2vmin;
@@ -45,14 +157,61 @@ export class PromptController extends LitElement {
       cursor: pointer;
       visibility: hidden;
       user-select: none;
-      margin-top: 6px;
+      .show-cc & {
+        visibility: visible;
+      }
+    }
+    #midi {
       .learn-mode & {
         color: #ffcc00;
         border-color: #ffcc00;
         box-shadow: 0 0 10px #ffcc0044;
       }
-      .show-cc & {
-        visibility: visible;
+      &.pickup {
+        color: #ff8800;
+        border-color: #ff8800;
+      }
+    }
+    #response, #automation {
+      position: absolute;
+      top: 100%;
+      z-index: 40;
+      display: grid;
+      grid-template-columns: auto auto;
+      gap: 4px 6px;
+      align-items: center;
+      padding: 6px;
+      font-family: 'Courier New', monospace;
+      font-size: 1.2vmin;
+      color: #ffffffcc;
+      background: #000000ee;
+      border: 1px solid #ffffff44;
+      border-radius: 4px;
+      select, input, button {
+        font: inherit;
+        background: #222;
+        color: #fff;
+        border: 1px solid #ffffff44;
+        border-radius: 2px;
+      }
+      input[type='number'] {
+        width: 5em;
+      }
+      button {
+        cursor: pointer;
+        &.learn {
+          color: #ffcc00;
+          border-color: #ffcc00;
+        }
+        &.recording {
+          color: #fff;
+          background: #ff0044;
+          border-color: #ff0044;
+        }
+      }
+      .pair {
+        display: flex;
+        gap: 4px;
       }
     }
     #text {
@@ -95,6 +254,17 @@ export class PromptController extends LitElement {
         text-decoration: line-through;
       }
     }
+    :host([muted]), :host([silenced]) {
+      weight-knob {
+        opacity: 0.35;
+      }
+    }
+    :host([solo]) #text {
+      outline: 1px solid #ffcc00;
+    }
+    :host([selected]) weight-knob {
+      filter: drop-shadow(0 0 0.8vmin #fff);
+    }
     @media only screen and (max-width: 600px) {
       #text {
         font-size: 2.5vmin;
@@ -110,12 +280,42 @@ export class PromptController extends LitElement {
   @property({ type: Number }) weight = 0;
   @property({ type: String }) color = '';
   @property({ type: Boolean, reflect: true }) filtered = false;
+  @property({ type: Boolean, reflect: true }) muted = false;
+  @property({ type: Boolean, reflect: true }) solo = false;
+  /** Another prompt is soloed, so this one isn't heard. */
+  @property({ type: Boolean, reflect: true }) silenced = false;
+  /** Target of the keyboard's nudge, mute and solo keys. */
+  @property({ type: Boolean, reflect: true }) selected = false;
 
   @property({ type: Number }) cc = 0;
   @property({ type: Number }) channel = 0;
+  @property({ type: Number }) note: number | null = null;
+  /** Channel the note was learned on; null for any channel. */
+  @property({ type: Number }) noteChannel: number | null = null;
+  /** Input the CC was learned on; null for any input. */
+  @property({ type: String }) device: string | null = null;
+  /** Input the note was learned on; null for any input. */
+  @property({ type: String }) noteDevice: string | null = null;
+  @property({ type: Object }) response: ControlResponse = DEFAULT_CONTROL_RESPONSE;
+  @property({ type: Object }) muteButton: ButtonMapping | null = null;
+  @property({ type: Object }) soloButton: ButtonMapping | null = null;
+  /** Whether the pad, mute and solo buttons toggle, rather than act while held. */
+  @property({ type: Boolean }) latch = true;
+  @property({ type: Object }) automation: Automation = DEFAULT_AUTOMATION;
+  /** Weight the session gets after automation, or null if it equals the set weight. */
+  @property({ type: Number }) modulatedWeight: number | null = null;
+  /** Whether a loop is being recorded from this prompt. */
+  @property({ type: Boolean }) recordingLoop = false;
 
   @property({ type: Boolean }) learnMode = false;
   @property({ type: Boolean }) showCC = false;
+  /** Shows the color picker and remove button while the grid is edited. */
+  @property({ type: Boolean }) editing = false;
+  @state() private editingResponse = false;
+  @state() private editingAutomation = false;
+  /** Length of the next loop to record. */
+  @state() private loopBeats = 4;
+  @state() private learningTarget: LearnTarget | null = null;
 
   @query('weight-knob') private weightInput!: WeightKnob;
   @query('#text') private textInput!: HTMLInputElement;
@@ -126,22 +326,150 @@ export class PromptController extends LitElement {
   @property({ type: Number }) audioLevel = 0;
 
   private lastValidText!: string;
+  /** Weight restored when a pad toggles the prompt back on. */
+  private weightBeforeToggle = 1;
+  private readonly mapper = new ControlMapper();
 
   connectedCallback() {
     super.connectedCallback();
-    this.midiDispatcher?.addEventListener('cc-message', (e: Event) => {
-      const customEvent = e as CustomEvent<ControlChange>;
-      const { channel, cc, value } = customEvent.detail;
-      if (this.learnMode) {
-        this.cc = cc;
-        this.channel = channel;
-        this.learnMode = false;
-        this.dispatchPromptChange();
-      } else if (cc === this.cc) {
-        this.weight = (value / 127) * 2;
-        this.dispatchPromptChange();
-      }
-    });
+    this.midiDispatcher?.addEventListener('cc-message', this.handleControlChange);
+    this.midiDispatcher?.addEventListener('cc14-message', this.handleHighResControlChange);
+    this.midiDispatcher?.addEventListener('note-on', this.handleNoteOn);
+    this.midiDispatcher?.addEventListener('note-off', this.handleNoteOff);
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    this.midiDispatcher?.removeEventListener('cc-message', this.handleControlChange);
+    this.midiDispatcher?.removeEventListener('cc14-message', this.handleHighResControlChange);
+    this.midiDispatcher?.removeEventListener('note-on', this.handleNoteOn);
+    this.midiDispatcher?.removeEventListener('note-off', this.handleNoteOff);
+  }
+
+  private readonly handleControlChange = (e: Event) => {
+    const customEvent = e as CustomEvent<ControlChange>;
+    const { device, channel, cc, value, highRes } = customEvent.detail;
+    if (this.learnMode) {
+      this.cc = cc;
+      this.channel = channel;
+      this.device = device;
+      this.learnMode = false;
+      this.dispatchPromptChange();
+      return;
+    }
+    if (this.learningTarget !== null) {
+      // Learn on the press, not the release that follows. Envelopes are note-only.
+      if (value > 0 && this.learningTarget !== 'envelope') this.learnButton({ type: 'cc', number: cc, channel, device });
+      return;
+    }
+    // An absolute 14-bit pair is applied once, from its full value.
+    if (this.isMapped(device, channel, cc) && !(highRes && this.response.mode === 'absolute')) {
+      this.applyMidiWeight(this.response.mode === 'absolute'
+        ? this.mapper.absolute(this.response, value / 127, this.weight)
+        : this.mapper.relative(this.response, value, this.weight));
+    }
+    this.handleButtons('cc', device, channel, cc, value >= 64);
+  };
+
+  /** Applies a 14-bit pair's full value, refining the MSB's until the pair is known to be 14-bit. */
+  private readonly handleHighResControlChange = (e: Event) => {
+    const customEvent = e as CustomEvent<HighResControlChange>;
+    const { device, channel, cc, value } = customEvent.detail;
+    if (this.learnMode || this.learningTarget !== null) return;
+    if (this.response.mode !== 'absolute' || !this.isMapped(device, channel, cc)) return;
+    this.applyMidiWeight(this.mapper.absolute(this.response, value / 16383, this.weight));
+  };
+
+  /** Mappings are keyed by device, channel and CC. */
+  private isMapped(device: string, channel: number, cc: number) {
+    return cc === this.cc && channel === this.channel && matchesDevice(this.device, device);
+  }
+
+  /** Applies a weight from the mapper; null means soft takeover is waiting. */
+  private applyMidiWeight(weight: number | null) {
+    if (weight === null) {
+      (this as any).requestUpdate();
+      return;
+    }
+    this.weight = weight;
+    this.dispatchPromptChange();
+  }
+
+  private readonly handleNoteOn = (e: Event) => {
+    const customEvent = e as CustomEvent<NoteMessage>;
+    const { device, channel, note } = customEvent.detail;
+    if (this.learnMode) {
+      this.note = note;
+      this.noteChannel = channel;
+      this.noteDevice = device;
+      this.learnMode = false;
+      this.dispatchPromptChange();
+    } else if (this.learningTarget !== null) {
+      this.learnButton({ type: 'note', number: note, channel, device });
+    } else {
+      if (this.isPad(device, channel, note)) this.togglePad();
+      this.handleButtons('note', device, channel, note, true);
+    }
+  };
+
+  /** Momentary pads and buttons toggle back when released. */
+  private readonly handleNoteOff = (e: Event) => {
+    const customEvent = e as CustomEvent<NoteMessage>;
+    const { device, channel, note } = customEvent.detail;
+    if (this.latch || this.learnMode || this.learningTarget !== null) return;
+    if (this.isPad(device, channel, note)) this.togglePad();
+    this.handleButtons('note', device, channel, note, false);
+  };
+
+  /** Pads, like CC mappings, are keyed by device, channel and note. */
+  private isPad(device: string, channel: number, note: number) {
+    return note === this.note
+      && (this.noteChannel === null || channel === this.noteChannel)
+      && matchesDevice(this.noteDevice, device);
+  }
+
+  private togglePad() {
+    if (this.weight > 0) {
+      this.weightBeforeToggle = this.weight;
+      this.weight = 0;
+    } else {
+      this.weight = this.weightBeforeToggle;
+    }
+    this.dispatchPromptChange();
+  }
+
+  /** Latching buttons toggle on press; momentary ones also toggle back on release. */
+  private handleButtons(type: ButtonMapping['type'], device: string, channel: number, number: number, pressed: boolean) {
+    if (!pressed && this.latch) return;
+    if (isButton(this.muteButton, type, device, channel, number)) this.toggleMute();
+    if (isButton(this.soloButton, type, device, channel, number)) this.toggleSolo();
+  }
+
+  private learnButton(mapping: ButtonMapping) {
+    if (this.learningTarget === 'mute') {
+      this.muteButton = mapping;
+    } else if (this.learningTarget === 'solo') {
+      this.soloButton = mapping;
+    } else if (this.automation.envelope) {
+      this.automation = { ...this.automation, envelope: { ...this.automation.envelope, note: mapping.number } };
+    }
+    this.learningTarget = null;
+    this.dispatchPromptChange();
+  }
+
+  private toggleLearnTarget(target: LearnTarget) {
+    this.learnMode = false;
+    this.learningTarget = this.learningTarget === target ? null : target;
+  }
+
+  private toggleMute() {
+    this.muted = !this.muted;
+    this.dispatchPromptChange();
+  }
+
+  private toggleSolo() {
+    this.solo = !this.solo;
+    this.dispatchPromptChange();
   }
 
   firstUpdated() {
@@ -153,9 +481,12 @@ export class PromptController extends LitElement {
   update(changedProperties: Map<string, unknown>) {
     if (changedProperties.has('showCC') && !this.showCC) {
       this.learnMode = false;
+      this.learningTarget = null;
+      this.editingResponse = false;
     }
     if (changedProperties.has('text') && this.textInput) {
       this.textInput.textContent = this.text;
+      this.lastValidText = this.text;
     }
     super.update(changedProperties);
   }
@@ -168,7 +499,19 @@ export class PromptController extends LitElement {
           text: this.text,
           weight: this.weight,
           cc: this.cc,
+          channel: this.channel,
+          note: this.note,
+          noteChannel: this.noteChannel,
+          device: this.device,
+          noteDevice: this.noteDevice,
+          response: this.response,
           color: this.color,
+          muted: this.muted,
+          solo: this.solo,
+          muteButton: this.muteButton,
+          soloButton: this.soloButton,
+          latch: this.latch,
+          automation: this.automation,
         },
       }),
     );
@@ -218,6 +561,7 @@ export class PromptController extends LitElement {
   }
 
   private toggleLearnMode() {
+    this.learningTarget = null;
     this.learnMode = !this.learnMode;
   }
 
@@ -226,6 +570,7 @@ export class PromptController extends LitElement {
       'prompt': true,
       'learn-mode': this.learnMode,
       'show-cc': this.showCC,
+      'editing': this.editing,
       'active': this.weight > 0.05
     });
 
@@ -236,11 +581,16 @@ export class PromptController extends LitElement {
     });
 
     return html`<div class=${classes}>
+      ${this.editing ? this.renderEditRow() : ''}
       <weight-knob
         id="weight"
         .value=${this.weight}
         color=${this.filtered ? '#333' : this.color}
         .audioLevel=${this.filtered ? 0 : this.audioLevel}
+        ?muted=${this.muted}
+        ?solo=${this.solo}
+        ?silenced=${this.silenced}
+        .modulated=${this.modulatedWeight}
         @input=${this.updateWeight}></weight-knob>
       <span
         id="text"
@@ -249,11 +599,236 @@ export class PromptController extends LitElement {
         @focus=${this.onFocus}
         @keydown=${this.onKeyDown}
         @blur=${this.updateText}></span>
-      <div id="midi" @click=${this.toggleLearnMode}>
-        ${this.learnMode ? 'LEARN' : `CC:${this.cc}`}
+      <div id="toggles">
+        <button class=${classMap({ on: this.muted })} title="Mute" @click=${this.toggleMute}>M</button>
+        <button class=${classMap({ solo: true, on: this.solo })} title="Solo" @click=${this.toggleSolo}>S</button>
+        <button
+          class=${classMap({ auto: true, on: hasAutomation(this.automation) })}
+          title="LFO, envelope and loop"
+          @click=${this.toggleAutomationEditor}>AUTO</button>
+      </div>
+      <div id="midi-row">
+        <div
+          id="midi"
+          class=${this.mapper.waitingForPickup ? 'pickup' : ''}
+          title=${this.mapper.waitingForPickup ? 'Move the control to the current weight to pick it up' : ''}
+          @click=${this.toggleLearnMode}>
+          ${this.learnMode ? 'LEARN' : `CC:${this.cc}${this.note === null ? '' : ` N:${this.note}`}`}
+        </div>
+        <div id="response-toggle" @click=${this.toggleResponseEditor}>
+          ${CURVE_LABELS[this.response.curve]}${this.response.mode === 'absolute' ? '' : ' REL'}
+        </div>
+      </div>
+      ${this.editingResponse ? this.renderResponseEditor() : ''}
+      ${this.editingAutomation ? this.renderAutomationEditor() : ''}
+    </div>`;
+  }
+
+  private updateLatch(e: Event) {
+    this.latch = (e.target as HTMLInputElement).checked;
+    this.dispatchPromptChange();
+  }
+
+  private renderEditRow() {
+    return html`<div id="edit-row">
+      <input type="color" title="Color" .value=${this.color} @change=${this.updateColor} />
+      <button title="Remove prompt" @click=${this.dispatchRemove}>✕</button>
+    </div>`;
+  }
+
+  private updateColor(e: Event) {
+    this.color = (e.target as HTMLInputElement).value;
+    this.dispatchPromptChange();
+  }
+
+  private dispatchRemove() {
+    (this as unknown as HTMLElement).dispatchEvent(
+      new CustomEvent<string>('prompt-removed', { detail: this.promptId }),
+    );
+  }
+
+  private toggleResponseEditor() {
+    this.editingResponse = !this.editingResponse;
+    this.editingAutomation = false;
+  }
+
+  private toggleAutomationEditor() {
+    this.editingAutomation = !this.editingAutomation;
+    this.editingResponse = false;
+  }
+
+  private updateAutomation(changes: Partial<Automation>) {
+    this.automation = { ...this.automation, ...changes };
+    this.dispatchPromptChange();
+  }
+
+  private updateLfo(changes: Partial<Lfo>) {
+    this.updateAutomation({ lfo: { ...(this.automation.lfo ?? DEFAULT_LFO), ...changes } });
+  }
+
+  private updateEnvelope(changes: Partial<Envelope>) {
+    this.updateAutomation({ envelope: { ...(this.automation.envelope ?? DEFAULT_ENVELOPE), ...changes } });
+  }
+
+  private handleLfoShapeChange(e: Event) {
+    const shape = (e.target as HTMLSelectElement).value;
+    if (shape === '') {
+      this.updateAutomation({ lfo: null });
+    } else {
+      this.updateLfo({ shape: shape as LfoShape });
+    }
+  }
+
+  private handleEnvelopeToggle(e: Event) {
+    const enabled = (e.target as HTMLInputElement).checked;
+    this.updateAutomation({ envelope: enabled ? { ...DEFAULT_ENVELOPE } : null });
+    if (!enabled && this.learningTarget === 'envelope') this.learningTarget = null;
+  }
+
+  private updateNumber(e: Event, min: number, max: number, apply: (value: number) => void) {
+    const value = (e.target as HTMLInputElement).valueAsNumber;
+    if (Number.isNaN(value)) return;
+    apply(Math.min(max, Math.max(min, value)));
+  }
+
+  private recordLoop() {
+    (this as unknown as HTMLElement).dispatchEvent(
+      new CustomEvent<{ promptId: string; beats: number }>('loop-record', {
+        detail: { promptId: this.promptId, beats: this.loopBeats },
+      }),
+    );
+  }
+
+  private renderAutomationEditor() {
+    const { lfo, envelope, loop } = this.automation;
+    const learningNote = this.learningTarget === 'envelope';
+    return html`<div id="automation">
+      <label for="lfo">LFO</label>
+      <select id="lfo" @change=${this.handleLfoShapeChange}>
+        <option value="" ?selected=${lfo === null}>OFF</option>
+        ${LFO_SHAPES.map((shape) => html`<option value=${shape} ?selected=${lfo?.shape === shape}>
+          ${LFO_LABELS[shape]}
+        </option>`)}
+      </select>
+      ${lfo ? html`
+        <label for="lfo-beats">RATE</label>
+        <select id="lfo-beats" @change=${(e: Event) => this.updateLfo({ beats: Number((e.target as HTMLSelectElement).value) })}>
+          ${LFO_BEATS.map((beats) => html`<option value=${beats} ?selected=${lfo.beats === beats}>
+            ${formatBeats(beats)}
+          </option>`)}
+        </select>
+        <label for="lfo-depth">DEPTH</label>
+        <input id="lfo-depth" type="number" min="0" max="2" step="0.05" .value=${String(lfo.depth)}
+          @change=${(e: Event) => this.updateNumber(e, 0, 2, (depth) => this.updateLfo({ depth }))} />
+      ` : ''}
+      <label for="envelope">ENV</label>
+      <div class="pair">
+        <input id="envelope" type="checkbox" .checked=${envelope !== null} @change=${this.handleEnvelopeToggle} />
+        ${envelope ? html`<button
+          class=${learningNote ? 'learn' : ''}
+          title="Click, then press the pad that triggers the envelope"
+          @click=${() => this.toggleLearnTarget('envelope')}>
+          ${learningNote ? 'LEARN' : envelope.note === null ? 'NOTE:-' : `NOTE:${envelope.note}`}
+        </button>` : ''}
+      </div>
+      ${envelope ? html`
+        ${ENVELOPE_FIELDS.map(({ key, label, min, max, step }) => html`
+          <label for=${`env-${key}`}>${label}</label>
+          <input id=${`env-${key}`} type="number" min=${min} max=${max} step=${step} .value=${String(envelope[key])}
+            @change=${(e: Event) => this.updateNumber(e, min, max, (value) => this.updateEnvelope({ [key]: value }))} />
+        `)}
+      ` : ''}
+      <label for="loop-beats">LOOP</label>
+      <div class="pair">
+        <select id="loop-beats" @change=${(e: Event) => { this.loopBeats = Number((e.target as HTMLSelectElement).value); }}>
+          ${LOOP_BEATS.map((beats) => html`<option value=${beats} ?selected=${this.loopBeats === beats}>
+            ${formatBeats(beats)}
+          </option>`)}
+        </select>
+        <button
+          class=${this.recordingLoop ? 'recording' : ''}
+          title="Record this knob for the chosen length, then loop it"
+          ?disabled=${this.recordingLoop}
+          @click=${this.recordLoop}>REC</button>
+        ${loop ? html`<button title="Clear the loop" @click=${() => this.updateAutomation({ loop: null })}>✕</button>` : ''}
       </div>
     </div>`;
   }
+
+  private updateResponse(changes: Partial<ControlResponse>) {
+    this.response = { ...this.response, ...changes };
+    this.dispatchPromptChange();
+  }
+
+  private updateResponseRange(key: 'min' | 'max', e: Event) {
+    const value = (e.target as HTMLInputElement).valueAsNumber;
+    if (Number.isNaN(value)) return;
+    this.updateResponse({ [key]: Math.min(2, Math.max(0, value)) });
+  }
+
+  private renderButtonLearn(button: 'mute' | 'solo', mapping: ButtonMapping | null) {
+    const learning = this.learningTarget === button;
+    let label = '-';
+    if (learning) {
+      label = 'LEARN';
+    } else if (mapping) {
+      label = `${mapping.type === 'note' ? 'N' : 'CC'}:${mapping.number}`;
+    }
+    return html`<button
+      id=${button}
+      class=${learning ? 'learn' : ''}
+      title="Click, then press a pad or button"
+      @click=${() => this.toggleLearnTarget(button)}>${label}</button>`;
+  }
+
+  private renderResponseEditor() {
+    const { curve, mode, min, max, softTakeover } = this.response;
+    return html`<div id="response">
+      <label for="curve">CURVE</label>
+      <select
+        id="curve"
+        @change=${(e: Event) => this.updateResponse({ curve: (e.target as HTMLSelectElement).value as ResponseCurve })}>
+        ${RESPONSE_CURVES.map((c) => html`<option value=${c} ?selected=${c === curve}>${CURVE_LABELS[c]}</option>`)}
+      </select>
+      <label for="mode">MODE</label>
+      <select
+        id="mode"
+        @change=${(e: Event) => this.updateResponse({ mode: (e.target as HTMLSelectElement).value as EncoderMode })}>
+        ${ENCODER_MODES.map((m) => html`<option value=${m} ?selected=${m === mode}>${MODE_LABELS[m]}</option>`)}
+      </select>
+      <label for="min">MIN</label>
+      <input id="min" type="number" min="0" max="2" step="0.05" .value=${String(min)}
+        @change=${(e: Event) => this.updateResponseRange('min', e)} />
+      <label for="max">MAX</label>
+      <input id="max" type="number" min="0" max="2" step="0.05" .value=${String(max)}
+        @change=${(e: Event) => this.updateResponseRange('max', e)} />
+      <label for="pickup">PICKUP</label>
+      <input id="pickup" type="checkbox" .checked=${softTakeover}
+        @change=${(e: Event) => this.updateResponse({ softTakeover: (e.target as HTMLInputElement).checked })} />
+      <label for="mute">MUTE</label>
+      ${this.renderButtonLearn('mute', this.muteButton)}
+      <label for="solo">SOLO</label>
+      ${this.renderButtonLearn('solo', this.soloButton)}
+      <label for="latch">LATCH</label>
+      <input id="latch" type="checkbox" .checked=${this.latch}
+        title="Off: pads and buttons act only while held"
+        @change=${this.updateLatch} />
+    </div>`;
+  }
+}
+
+function isButton(
+  mapping: ButtonMapping | null,
+  type: ButtonMapping['type'],
+  device: string,
+  channel: number,
+  number: number,
+) {
+  return mapping !== null
+    && mapping.type === type
+    && mapping.number === number
+    && mapping.channel === channel
+    && matchesDevice(mapping.device, device);
 }
 
 declare global {
@@ -5,14 +5,90 @@
 */
 import { css, html, LitElement } from 'lit';
 import { customElement, property, state, query } from 'lit/decorators.js';
+import { repeat } from 'lit/directives/repeat.js';
 import { styleMap } from 'lit/directives/style-map.js';
 
 import { throttle } from '../utils/throttle';
 
 import './PromptController';
 import './PlayPauseButton';
-import type { PlaybackState, Prompt } from '../types';
-import { MidiDispatcher } from '../utils/MidiDispatcher';
+import './SceneBar';
+import './GenerationConfigPanel';
+import './MasterPanel';
+import './FxPanel';
+import './OutputPanel';
+import './KeymapOverlay';
+import './GestureTimeline';
+import './FilteredPromptPanel';
+import type { LiveMusicGenerationConfig } from '@google/genai';
+import type {
+  AudioOutput,
+  AutomationLoop,
+  ClockTick,
+  ConfigMapping,
+  FeedbackScaling,
+  FilteredPrompt,
+  FxMapping,
+  FxParam,
+  FxSettings,
+  GenerationParam,
+  Gesture,
+  GestureState,
+  GestureTake,
+  KeyAction,
+  Keymap,
+  MasterMapping,
+  MasterParam,
+  MasterSettings,
+  NoteMessage,
+  PerformanceFx,
+  PerformanceFxChange,
+  PlaybackState,
+  ProgramChange,
+  Prompt,
+  RecorderState,
+  Scene,
+  TransportMessage,
+  UiState,
+} from '../types';
+import type { RecordingFormat } from '../utils/AudioRecorder';
+import { AutomationEngine, hasAutomation } from '../utils/AutomationEngine';
+import { ControlMapper, type ControlValue } from '../utils/ControlMapper';
+import { GestureRecorder } from '../utils/GestureRecorder';
+import { createTakeFile, parseTake, takeToBlob } from '../utils/gestureTake';
+import type { BufferHealth } from '../utils/JitterBuffer';
+import { MidiDispatcher, type MidiDeviceChange } from '../utils/MidiDispatcher';
+import { MidiFeedback } from '../utils/MidiFeedback';
+import { ClockFollower, ClockGenerator } from '../utils/MidiClock';
+import { DEFAULT_BPM, NUMERIC_PARAMS, configWithControl } from '../utils/generationConfig';
+import { DEFAULT_MASTER_SETTINGS, masterWithControl } from '../utils/masterSettings';
+import { DEFAULT_FX_SETTINGS, fxWithControl } from '../utils/fxSettings';
+import {
+  COARSE_NUDGE_STEP,
+  DEFAULT_KEYMAP,
+  NUDGE_STEP,
+  actionForChord,
+  chordFromEvent,
+  isTyping,
+} from '../utils/keymap';
+import { isAudible } from '../utils/promptMix';
+import {
+  DEFAULT_GRID_COLUMNS,
+  MAX_GRID_COLUMNS,
+  MAX_PROMPTS,
+  addPrompt,
+  assignCcs,
+  gridRows,
+  movePrompt,
+  resizePrompts,
+} from '../utils/promptGrid';
+import { SceneManager, type CrossfadeStep } from '../utils/SceneManager';
+import { createProfile, parseProfile, profileToBlob } from '../utils/profile';
+import { formatValidationErrors } from '../utils/validation';
+import { downloadBlob } from '../utils/download';
+import { AppError, errorMessage } from '../utils/errors';
+
+const BPM_SPEC = NUMERIC_PARAMS.find((p) => p.key === 'bpm')!;
 
 /** The grid of prompt inputs. */
 @customElement('prompt-dj-midi')
@@ -48,18 +124,27 @@ export class PromptDjMidi extends LitElement {
       pointer-events: none;
     }
     #grid {
-      width: 80vmin;
-      height: 80vmin;
       display: grid;
-      grid-template-columns: repeat(4, 1fr);
-      grid-template-rows: repeat(4, 1fr);
       gap: 2.5vmin;
       margin-top: 4vmin;
       position: relative;
       z-index: 10;
+      &.cueing {
+        outline: 2px dashed #00ff88;
+        outline-offset: 1.5vmin;
+      }
     }
     prompt-controller {
       width: 100%;
+      &.drop-target {
+        outline: 1px dashed #fff;
+        outline-offset: 4px;
+      }
+    }
+    #add-prompt {
+      font-size: 4vmin;
+      font-weight: 400;
+      border-style: dashed;
     }
     play-pause-button {
       position: relative;
@@ -67,6 +152,71 @@ export class PromptDjMidi extends LitElement {
       margin-top: 2vmin;
       z-index: 20;
     }
+    scene-bar {
+      position: absolute;
+      bottom: 20px;
+      left: 20px;
+      right: 20px;
+      z-index: 30;
+    }
+    #buffer-health {
+      position: absolute;
+      top: 0;
+      right: 0;
+      padding: 26px 20px;
+      z-index: 30;
+      font-family: 'Courier New', monospace;
+      font-size: 11px;
+      color: #ffffffaa;
+      pointer-events: none;
+      &.low {
+        color: #ff0044;
+      }
+    }
+    keymap-overlay {
+      position: absolute;
+      top: 50%;
+      left: 50%;
+      transform: translate(-50%, -50%);
+      z-index: 40;
+      max-height: calc(100% - 160px);
+      overflow-y: auto;
+    }
+    gesture-timeline {
+      position: absolute;
+      bottom: 70px;
+      left: 20px;
+      right: 20px;
+      z-index: 30;
+      max-height: 40%;
+      overflow-y: auto;
+    }
+    filtered-prompt-panel {
+      position: absolute;
+      top: 70px;
+      left: 20px;
+      z-index: 30;
+      max-width: 40%;
+      max-height: calc(100% - 160px);
+      overflow-y: auto;
+    }
+    #side-panels {
+      position: absolute;
+      top: 70px;
+      bottom: 90px;
+      right: 20px;
+      z-index: 30;
+      display: flex;
+      gap: 10px;
+      align-items: flex-start;
+      pointer-events: none;
+      & > * {
+        max-height: 100%;
+        box-sizing: border-box;
+        overflow-y: auto;
+        pointer-events: auto;
+      }
+    }
     #buttons {
       position: absolute;
       top: 0;
@@ -97,6 +247,46 @@ export class PromptDjMidi extends LitElement {
         background-color: #fff;
         color: #000;
       }
+      &.filtered {
+        border-color: #f66;
+        color: #f66;
+      }
+      &.cue {
+        background-color: #00ff88;
+        border-color: #00ff88;
+        color: #000;
+      }
+      &.armed {
+        border-color: #ff0044;
+        color: #ff0044;
+      }
+      &.recording {
+        background-color: #ff0044;
+        border-color: #ff0044;
+        color: #fff;
+      }
+      &:disabled {
+        opacity: 0.4;
+        cursor: default;
+      }
+    }
+    #midi-inputs {
+      display: flex;
+      gap: 6px;
+      align-items: center;
+      span {
+        color: #ffffffaa;
+      }
+    }
+    input[type='number'] {
+      font: inherit;
+      width: 4em;
+      padding: 5px;
+      background: rgba(255, 255, 255, 0.9);
+      color: #000;
+      border-radius: 4px;
+      border: none;
+      outline: none;
     }
     select {
       font: inherit;
@@ -122,24 +312,307 @@ export class PromptDjMidi extends LitElement {
 
   private prompts: Map<string, Prompt>;
   private midiDispatcher: MidiDispatcher;
+  private midiFeedback: MidiFeedback;
+  /** The prompts last sent to the session, with automation applied. */
+  private sentPrompts: Map<string, Prompt>;
+  private clockFollower = new ClockFollower();
+  private clockGenerator: ClockGenerator;
+  /** Whether clock out has sent a start that hasn't been stopped yet. */
+  private clockOutRunning = false;
+  private sceneManager: SceneManager;
+  private automation = new AutomationEngine();
+  private gestureRecorder = new GestureRecorder();
+  /** Learned CCs of the config, master and FX panels, applied whether or not a panel is open. */
+  private configMapper: ControlMapper<GenerationParam>;
+  private masterMapper: ControlMapper<MasterParam>;
+  private fxMapper: ControlMapper<FxParam>;
 
   @property({ type: Boolean }) private showMidi = false;
+  @property({ type: Boolean }) private showConfig = false;
+  @property({ type: Object }) public generationConfig: LiveMusicGenerationConfig = {};
+  @property({ type: Boolean }) private showMaster = false;
+  @property({ type: Object }) public masterSettings: MasterSettings = DEFAULT_MASTER_SETTINGS;
+  @property({ type: Boolean }) private showFx = false;
+  @property({ type: Object }) public fxSettings: FxSettings = DEFAULT_FX_SETTINGS;
+  /** The performance effect being held, if any. */
+  @state() private engagedFx: PerformanceFx | null = null;
+  @property({ type: Boolean }) private showOutput = false;
+  @property({ type: Array }) public audioOutputs: AudioOutput[] = [];
+  @property({ type: Boolean }) public outputSelectable = false;
+  @state() private outputId: string | null = null;
+  @state() private cueOutputId: string | null = null;
+  @state() private cueVolume = 1;
+  @property({ type: String }) public cuePlaybackState: PlaybackState = 'stopped';
+  @state() private cueing = false;
+  /** The prompts playing on the main output when cueing started, restored if it is cancelled. */
+  private livePrompts: Map<string, Prompt> | null = null;
   @property({ type: String }) public playbackState: PlaybackState = 'stopped';
+  @property({ type: String }) public recorderState: RecorderState = 'idle';
+  @property({ type: Number }) public recordedSeconds = 0;
+  @property({ type: Object }) public bufferHealth: BufferHealth | null = null;
   @state() public audioLevel = 0;
   @state() public frequencyData: Uint8Array = new Uint8Array(0);
   @state() private midiInputIds: string[] = [];
-  @state() private activeMidiInputId: string | null = null;
+  @state() private activeMidiInputIds: string[] = [];
+  @state() private midiOutputIds: string[] = [];
+  @state() private activeMidiOutputId: string | null = null;
+  @state() private clockIn = false;
+  @state() private clockOut = false;
+  @state() private clockBpm: number | null = null;
+  @state() private scenes: readonly Scene[] = [];
+  @state() private activeScene: string | null = null;
+  @state() private learningScene: string | null = null;
+  @state() private keymap: Keymap = DEFAULT_KEYMAP;
+  @state() private showKeymap = false;
+  @state() private showTakes = false;
+  @state() private gestureState: GestureState = 'idle';
+  @state() private gestureTake: GestureTake | null = null;
+  @state() private gesturePosition = 0;
+  @state() private backgroundImage = '';
+  /** Prompt the keyboard's nudge, mute and solo keys act on. */
+  @state() private selectedPromptId: string | null = null;
+  @state() private gridColumns = DEFAULT_GRID_COLUMNS;
+  @state() private editingGrid = false;
+  @state() private dropTargetId: string | null = null;
+  private draggedPromptId: string | null = null;
+  /** Weights after automation, for the prompts it moves. */
+  @state() private modulatedWeights = new Map<string, number>();
+  /** Toggles of momentary prompts to undo when their key is released, by key code. */
+  private heldToggles = new Map<string, () => void>();
 
-  @property({ type: Object })
-  private filteredPrompts = new Set<string>();
+  /** Prompt texts the server refused, from the main and cue sessions' FilteredPromptStores. */
+  @property({ type: Array }) public filteredPrompts: FilteredPrompt[] = [];
+  @state() private showFiltered = false;
 
   @query('#visualizer-canvas') private canvas!: HTMLCanvasElement;
+  @query('#profile-input') private profileInput!: HTMLInputElement;
   private ctx: CanvasRenderingContext2D | null = null;
 
+  public get configMappings(): ConfigMapping[] {
+    return this.configMapper.mappings;
+  }
+
+  public set configMappings(mappings: ConfigMapping[]) {
+    this.configMapper.mappings = mappings;
+  }
+
+  public get masterMappings(): MasterMapping[] {
+    return this.masterMapper.mappings;
+  }
+
+  public set masterMappings(mappings: MasterMapping[]) {
+    this.masterMapper.mappings = mappings;
+  }
+
+  public get fxMappings(): FxMapping[] {
+    return this.fxMapper.mappings;
+  }
+
+  public set fxMappings(mappings: FxMapping[]) {
+    this.fxMapper.mappings = mappings;
+  }
+
   constructor(initialPrompts: Map<string, Prompt>) {
     super();
     this.prompts = initialPrompts;
+    this.sentPrompts = initialPrompts;
     this.midiDispatcher = new MidiDispatcher();
+    this.midiFeedback = new MidiFeedback(this.midiDispatcher);
+    this.clockGenerator = new ClockGenerator((data, timestamp) => this.midiDispatcher.send(data, timestamp));
+    this.configMapper = new ControlMapper(this.midiDispatcher);
+    this.masterMapper = new ControlMapper(this.midiDispatcher);
+    this.fxMapper = new ControlMapper(this.midiDispatcher);
+    this.sceneManager = new SceneManager();
+    this.scenes = this.sceneManager.all;
+
+    this.sceneManager.addEventListener('scenes-changed', () => {
+      this.scenes = this.sceneManager.all;
+    });
+    this.sceneManager.addEventListener('error', (e: Event) => {
+      this.dispatchError((e as CustomEvent<AppError>).detail);
+    });
+    this.configMapper.addEventListener('control', (e: Event) => {
+      const { param, value } = (e as CustomEvent<ControlValue<GenerationParam>>).detail;
+      const config = configWithControl(this.generationConfig, param, value);
+      if (config[param] !== this.generationConfig[param]) this.setGenerationConfig(config);
+    });
+    this.configMapper.addEventListener('mappings-learned', (e: Event) => {
+      (this as unknown as HTMLElement).dispatchEvent(
+        new CustomEvent<ConfigMapping[]>('config-mappings-changed', { detail: (e as CustomEvent<ConfigMapping[]>).detail }),
+      );
+    });
+    this.masterMapper.addEventListener('control', (e: Event) => {
+      const { param, value } = (e as CustomEvent<ControlValue<MasterParam>>).detail;
+      const settings = masterWithControl(this.masterSettings, param, value);
+      if (settings[param] !== this.masterSettings[param]) this.setMasterSettings(settings);
+    });
+    this.masterMapper.addEventListener('mappings-learned', (e: Event) => {
+      (this as unknown as HTMLElement).dispatchEvent(
+        new CustomEvent<MasterMapping[]>('master-mappings-changed', { detail: (e as CustomEvent<MasterMapping[]>).detail }),
+      );
+    });
+    this.fxMapper.addEventListener('control', (e: Event) => {
+      const { param, value } = (e as CustomEvent<ControlValue<FxParam>>).detail;
+      if (param === 'beatRepeat' || param === 'tapeStop') {
+        this.engageFx(param, value >= 64);
+        return;
+      }
+      const settings = fxWithControl(this.fxSettings, param, value);
+      if (settings[param] !== this.fxSettings[param]) this.setFxSettings(settings);
+    });
+    this.fxMapper.addEventListener('mappings-learned', (e: Event) => {
+      (this as unknown as HTMLElement).dispatchEvent(
+        new CustomEvent<FxMapping[]>('fx-mappings-changed', { detail: (e as CustomEvent<FxMapping[]>).detail }),
+      );
+    });
+    this.midiDispatcher.addEventListener('note-on', (e: Event) => {
+      const { note } = (e as CustomEvent<NoteMessage>).detail;
+      if (this.learningScene !== null) {
+        this.sceneManager.setNote(this.learningScene, note);
+        this.learningScene = null;
+        return;
+      }
+      if (this.triggersEnvelope(note)) this.automation.noteOn(note);
+      const scene = this.sceneManager.findByNote(note);
+      if (scene) this.recallScene(scene.name);
+    });
+    this.midiDispatcher.addEventListener('note-off', (e: Event) => {
+      const { note } = (e as CustomEvent<NoteMessage>).detail;
+      if (this.triggersEnvelope(note)) this.automation.noteOff(note);
+    });
+    this.gestureRecorder.capture(initialPrompts);
+    this.gestureRecorder.addEventListener('gestures', (e: Event) => {
+      this.applyGestures((e as CustomEvent<Gesture[]>).detail);
+    });
+    this.gestureRecorder.addEventListener('gesture-state-changed', (e: Event) => {
+      this.gestureState = (e as CustomEvent<GestureState>).detail;
+    });
+    this.gestureRecorder.addEventListener('gesture-progress', (e: Event) => {
+      this.gesturePosition = (e as CustomEvent<number>).detail;
+      this.gestureTake = this.gestureRecorder.take;
+    });
+    this.automation.addEventListener('tick', () => {
+      // The main output keeps its automation while the grid is cued.
+      if (this.livePrompts) {
+        (this as unknown as HTMLElement).dispatchEvent(
+          new CustomEvent('live-prompts-modulated', { detail: this.automation.modulate(this.livePrompts) }),
+        );
+      }
+      // A crossfade sends its own steps, with automation applied.
+      if (this.sceneManager.crossfading) return;
+      this.dispatchPromptsChanged(this.prompts, 'prompts-modulated');
+    });
+    this.automation.addEventListener('loop-recorded', (e: Event) => {
+      const { promptId, loop } = (e as CustomEvent<{ promptId: string; loop: AutomationLoop }>).detail;
+      const prompt = this.prompts.get(promptId);
+      if (prompt) this.setPrompt({ ...prompt, automation: { ...prompt.automation, loop } });
+    });
+    this.midiDispatcher.addEventListener('devices-changed', () => this.refreshMidiDevices());
+    this.midiDispatcher.addEventListener('device-connected', (e: Event) => {
+      const { id } = (e as CustomEvent<MidiDeviceChange>).detail;
+      // Pick up the new device if none of the chosen ones are plugged in.
+      const inputIds = this.midiDispatcher.getInputIds();
+      if (!this.midiDispatcher.activeMidiInputIds.some((i) => i !== id && inputIds.includes(i))) {
+        this.midiDispatcher.setInputActive(id, true);
+        this.refreshMidiDevices();
+        this.dispatchUiStateChanged();
+      }
+    });
+    this.midiDispatcher.addEventListener('device-disconnected', (e: Event) => {
+      const { name } = (e as CustomEvent<MidiDeviceChange>).detail;
+      this.dispatchError(new AppError('midi-disconnected', 'midi', `MIDI device "${name}" disconnected.`, {
+        severity: 'warning',
+        subject: name,
+      }));
+    });
+    this.midiDispatcher.addEventListener('clock', (e: Event) => {
+      if (!this.clockIn) return;
+      this.clockFollower.tick((e as CustomEvent<ClockTick>).detail.time);
+    });
+    this.midiDispatcher.addEventListener('transport', (e: Event) => {
+      if (!this.clockIn) return;
+      this.handleTransport((e as CustomEvent<TransportMessage>).detail);
+    });
+    this.clockGenerator.addEventListener('send-failed', (e: Event) => {
+      const error = (e as CustomEvent<unknown>).detail;
+      this.clockOutRunning = false;
+      this.clockOut = false;
+      this.dispatchUiStateChanged();
+      this.dispatchError(new AppError('midi-disconnected', 'midi', `MIDI clock out stopped: ${errorMessage(error)}`, {
+        severity: 'warning',
+        cause: error,
+      }));
+    });
+    this.clockFollower.addEventListener('tempo', (e: Event) => {
+      this.handleClockTempo((e as CustomEvent<number>).detail);
+    });
+    this.midiDispatcher.addEventListener('program-change', (e: Event) => {
+      const { program } = (e as CustomEvent<ProgramChange>).detail;
+      const scene = this.sceneManager.at(program);
+      if (scene) this.recallScene(scene.name);
+    });
+  }
+
+  connectedCallback() {
+    super.connectedCallback();
+    window.addEventListener('keydown', this.handleKeyDown);
+    window.addEventListener('keyup', this.handleKeyUp);
+  }
+
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    window.removeEventListener('keydown', this.handleKeyDown);
+    window.removeEventListener('keyup', this.handleKeyUp);
+  }
+
+  willUpdate(changedProperties: Map<string, unknown>) {
+    if (changedProperties.has('generationConfig')) {
+      const bpm = this.generationConfig.bpm ?? DEFAULT_BPM;
+      this.sceneManager.bpm = bpm;
+      this.clockGenerator.bpm = bpm;
+      this.automation.bpm = bpm;
+    }
+    if (changedProperties.has('playbackState')) this.sendClockTransport();
+    this.makeBackground();
+  }
+
+  updated() {
+    // Picks up feedback being switched on, rescaled or moved to another output.
+    this.updateFeedback();
+    const prompts = [...this.prompts.values(), ...(this.livePrompts?.values() ?? [])];
+    this.automation.setActive(prompts.some((p) => hasAutomation(p.automation)));
+  }
+
+  private triggersEnvelope(note: number) {
+    return [...this.prompts.values()].some((p) => p.automation.envelope?.note === note);
+  }
+
+  /**
+   * Echoes the sent prompts to the controller. Only the grid's prompts have
+   * a control, so a crossfade's outgoing ones are left out.
+   */
+  private updateFeedback() {
+    this.midiFeedback.update([...this.sentPrompts.values()].filter((p) => this.prompts.has(p.promptId)));
+  }
+
+  /**
+   * Sends the prompts to the session with automation applied, and echoes
+   * them to the controller so its lights and faders show what is heard.
+   * `base` is what the grid holds, or a crossfade step on its way to it.
+   */
+  private dispatchPromptsChanged(base = this.prompts, type = 'prompts-changed') {
+    if (type === 'prompts-changed') this.gestureRecorder.capture(this.prompts);
+    const applied = this.automation.apply(base);
+    const modulatedWeights = new Map<string, number>();
+    for (const [promptId, prompt] of applied) {
+      if (prompt.weight !== base.get(promptId)?.weight) modulatedWeights.set(promptId, prompt.weight);
+    }
+    this.modulatedWeights = modulatedWeights;
+    this.sentPrompts = applied;
+    this.updateFeedback();
+    (this as unknown as HTMLElement).dispatchEvent(
+      new CustomEvent(type, { detail: applied }),
+    );
   }
 
   firstUpdated() {
@@ -197,8 +670,20 @@ export class PromptDjMidi extends LitElement {
     this.ctx.shadowBlur = 0;
   }
 
+  private handleLoopRecord(e: CustomEvent<{ promptId: string; beats: number }>) {
+    this.automation.record(e.detail.promptId, e.detail.beats);
+    (this as any).requestUpdate();
+  }
+
   private handlePromptChanged(e: CustomEvent<Prompt>) {
-    const { promptId, text, weight, cc } = e.detail;
+    this.setPrompt(e.detail);
+  }
+
+  private setPrompt(changed: Prompt) {
+    const {
+      promptId, text, weight, cc, channel, note, noteChannel, device, noteDevice, response, color, muted, solo,
+      muteButton, soloButton, latch, automation,
+    } = changed;
     const prompt = this.prompts.get(promptId);
 
     if (!prompt) {
@@ -206,9 +691,25 @@ export class PromptDjMidi extends LitElement {
       return;
     }
 
+    this.sceneManager.cancelCrossfade();
+    this.activeScene = null;
+
     prompt.text = text;
     prompt.weight = weight;
     prompt.cc = cc;
+    prompt.channel = channel;
+    prompt.note = note;
+    prompt.noteChannel = noteChannel;
+    prompt.device = device;
+    prompt.noteDevice = noteDevice;
+    prompt.response = response;
+    prompt.color = color;
+    prompt.muted = muted;
+    prompt.solo = solo;
+    prompt.muteButton = muteButton;
+    prompt.soloButton = soloButton;
+    prompt.latch = latch;
+    prompt.automation = automation;
 
     const newPrompts = new Map(this.prompts);
     newPrompts.set(promptId, prompt);
@@ -216,11 +717,287 @@ export class PromptDjMidi extends LitElement {
     this.prompts = newPrompts;
     (this as any).requestUpdate();
 
-    (this as unknown as HTMLElement).dispatchEvent(
-      new CustomEvent('prompts-changed', { detail: this.prompts }),
-    );
+    this.dispatchPromptsChanged();
+  }
+
+  /**
+   * Keys act on the grid unless they are typed into a prompt or a field.
+   * Escape closes the keymap or clears the selection.
+   */
+  private readonly handleKeyDown = (e: KeyboardEvent) => {
+    if (e.defaultPrevented || isTyping(e)) return;
+    if (e.code === 'Escape') {
+      if (this.showKeymap) {
+        this.showKeymap = false;
+      } else {
+        this.selectedPromptId = null;
+      }
+      return;
+    }
+    const chord = chordFromEvent(e);
+    const action = chord === null ? null : actionForChord(this.keymap, chord);
+    if (action === null) return;
+    e.preventDefault();
+    // Only nudges repeat while a key is held.
+    if (e.repeat && !action.startsWith('nudge-')) return;
+    this.performKeyAction(action, e.code);
+  };
+
+  private readonly handleKeyUp = (e: KeyboardEvent) => {
+    const release = this.heldToggles.get(e.code);
+    if (!release) return;
+    this.heldToggles.delete(e.code);
+    release();
+  };
+
+  private performKeyAction(action: KeyAction, code: string) {
+    const [, kind, index] = action.match(/^(select|scene)-(\d+)$/) ?? [];
+    if (kind === 'select') {
+      const promptId = [...this.prompts.keys()][Number(index)];
+      if (promptId !== undefined) this.selectedPromptId = promptId;
+      return;
+    }
+    if (kind === 'scene') {
+      const scene = this.sceneManager.at(Number(index));
+      if (scene) this.recallScene(scene.name);
+      return;
+    }
+    switch (action) {
+      case 'play-pause':
+        this.playPause();
+        break;
+      case 'select-next':
+        this.moveSelection(1);
+        break;
+      case 'select-previous':
+        this.moveSelection(-1);
+        break;
+      case 'nudge-up':
+        this.nudgeSelected(NUDGE_STEP);
+        break;
+      case 'nudge-down':
+        this.nudgeSelected(-NUDGE_STEP);
+        break;
+      case 'nudge-up-coarse':
+        this.nudgeSelected(COARSE_NUDGE_STEP);
+        break;
+      case 'nudge-down-coarse':
+        this.nudgeSelected(-COARSE_NUDGE_STEP);
+        break;
+      case 'mute':
+        this.toggleSelected('muted', code);
+        break;
+      case 'solo':
+        this.toggleSelected('solo', code);
+        break;
+      case 'show-keymap':
+        this.showKeymap = !this.showKeymap;
+        break;
+    }
+  }
+
+  private moveSelection(delta: number) {
+    const ids = [...this.prompts.keys()];
+    const current = this.selectedPromptId === null ? -1 : ids.indexOf(this.selectedPromptId);
+    const next = current === -1
+      ? (delta > 0 ? 0 : ids.length - 1)
+      : (current + delta + ids.length) % ids.length;
+    this.selectedPromptId = ids[next] ?? null;
+  }
+
+  private get selectedPrompt() {
+    return this.selectedPromptId === null ? undefined : this.prompts.get(this.selectedPromptId);
+  }
+
+  private nudgeSelected(delta: number) {
+    const prompt = this.selectedPrompt;
+    if (!prompt) return;
+    const weight = Math.round(Math.min(2, Math.max(0, prompt.weight + delta)) * 100) / 100;
+    if (weight !== prompt.weight) this.setPrompt({ ...prompt, weight });
+  }
+
+  private toggleSelected(key: 'muted' | 'solo', code: string) {
+    const prompt = this.selectedPrompt;
+    if (!prompt) return;
+    this.togglePrompt(prompt.promptId, key);
+    if (!prompt.latch) this.heldToggles.set(code, () => this.togglePrompt(prompt.promptId, key));
+  }
+
+  private togglePrompt(promptId: string, key: 'muted' | 'solo') {
+    const prompt = this.prompts.get(promptId);
+    if (prompt) this.setPrompt({ ...prompt, [key]: !prompt[key] });
+  }
+
+  private toggleShowKeymap() {
+    this.showKeymap = !this.showKeymap;
+  }
+
+  private handleKeymapChanged(e: CustomEvent<Keymap>) {
+    this.keymap = e.detail;
+    this.dispatchUiStateChanged();
+  }
+
+  /** Replaces every prompt at once, e.g. when the grid is resized or a profile is loaded. */
+  private replacePrompts(prompts: Map<string, Prompt>) {
+    this.sceneManager.cancelCrossfade();
+    this.activeScene = null;
+    this.prompts = prompts;
+    (this as any).requestUpdate();
+    this.dispatchPromptsChanged();
+  }
+
+  /** Sets the text and weight of each prompt a gesture names; others are skipped. */
+  private applyGestures(gestures: Gesture[]) {
+    const prompts = new Map(this.prompts);
+    let changed = false;
+    for (const { promptId, text, weight } of gestures) {
+      const prompt = prompts.get(promptId);
+      if (!prompt) continue;
+      prompts.set(promptId, { ...prompt, text, weight });
+      changed = true;
+    }
+    if (changed) this.replacePrompts(prompts);
+  }
+
+  private toggleShowTakes() {
+    this.showTakes = !this.showTakes;
+  }
+
+  private saveTake() {
+    const take = this.gestureRecorder.take;
+    if (!take) return;
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    downloadBlob(takeToBlob(createTakeFile(take)), `take-${stamp}.take.json`);
+  }
+
+  private async loadTake(e: CustomEvent<File>) {
+    const file = e.detail;
+    const { take, errors } = parseTake(await file.text());
+    if (!take) {
+      this.dispatchError(new AppError(
+        'invalid-file',
+        'take',
+        `Could not load ${file.name}:\n${formatValidationErrors(errors, 8)}`,
+      ));
+      return;
+    }
+    this.gestureRecorder.load(take);
+  }
+
+  private toggleEditingGrid() {
+    this.editingGrid = !this.editingGrid;
+  }
+
+  private addGridPrompt() {
+    if (this.prompts.size >= MAX_PROMPTS) return;
+    this.replacePrompts(addPrompt(this.prompts));
+  }
+
+  private handlePromptRemoved(e: CustomEvent<string>) {
+    // The session needs at least one prompt.
+    if (this.prompts.size <= 1) return;
+    const prompts = new Map(this.prompts);
+    prompts.delete(e.detail);
+    this.replacePrompts(prompts);
+  }
+
+  private handleGridColumnsChange(e: Event) {
+    const columns = Math.round((e.target as HTMLInputElement).valueAsNumber);
+    if (Number.isNaN(columns)) return;
+    this.gridColumns = Math.min(MAX_GRID_COLUMNS, Math.max(1, columns));
+    this.dispatchUiStateChanged();
+  }
+
+  /** Setting the rows fills or trims the grid to columns × rows prompts. */
+  private handleGridRowsChange(e: Event) {
+    const rows = Math.round((e.target as HTMLInputElement).valueAsNumber);
+    if (Number.isNaN(rows)) return;
+    const count = Math.min(MAX_PROMPTS, Math.max(1, rows * this.gridColumns));
+    this.replacePrompts(resizePrompts(this.prompts, count));
+  }
+
+  private autoAssignCcs() {
+    this.replacePrompts(assignCcs(this.prompts));
+  }
+
+  private handleDragStart(e: DragEvent, promptId: string) {
+    this.draggedPromptId = promptId;
+    e.dataTransfer?.setData('text/plain', promptId);
+  }
+
+  private handleDragOver(e: DragEvent, promptId: string) {
+    if (this.draggedPromptId === null) return;
+    e.preventDefault();
+    this.dropTargetId = promptId;
+  }
+
+  private handleDrop(e: DragEvent, promptId: string) {
+    e.preventDefault();
+    const dragged = this.draggedPromptId;
+    this.handleDragEnd();
+    if (dragged === null || dragged === promptId) return;
+    this.replacePrompts(movePrompt(this.prompts, dragged, promptId));
+  }
+
+  private handleDragEnd() {
+    this.draggedPromptId = null;
+    this.dropTargetId = null;
+  }
+
+  private renderGridControls() {
+    if (!this.editingGrid) return '';
+    return html`
+      <input
+        type="number" min="1" max=${MAX_GRID_COLUMNS} title="Columns"
+        .value=${String(this.gridColumns)}
+        @change=${this.handleGridColumnsChange} />
+      <input
+        type="number" min="1" max=${Math.floor(MAX_PROMPTS / this.gridColumns)} title="Rows"
+        .value=${String(gridRows(this.prompts.size, this.gridColumns))}
+        @change=${this.handleGridRowsChange} />
+      <button @click=${this.autoAssignCcs} title="Number the CCs in grid order">AUTO CC</button>
+    `;
+  }
+
+  private saveScene() {
+    const name = window.prompt('Scene name', `Scene ${this.scenes.length + 1}`)?.trim();
+    if (!name) return;
+    this.sceneManager.save(name, this.prompts);
+    this.activeScene = name;
   }
 
+  /** Crossfades the grid into a saved scene. */
+  public recallScene(name: string) {
+    const scene = this.sceneManager.get(name);
+    if (!scene) return;
+    this.activeScene = name;
+    this.sceneManager.crossfade(this.prompts, scene, ({ display, weighted }: CrossfadeStep) => {
+      this.prompts = display;
+      (this as any).requestUpdate();
+      this.dispatchPromptsChanged(weighted);
+    });
+  }
+
+  private handleSceneRecall(e: CustomEvent<string>) {
+    this.recallScene(e.detail);
+  }
+
+  private handleSceneDelete(e: CustomEvent<string>) {
+    if (this.activeScene === e.detail) this.activeScene = null;
+    this.sceneManager.remove(e.detail);
+  }
+
+  private handleSceneLearn(e: CustomEvent<string>) {
+    this.learningScene = this.learningScene === e.detail ? null : e.detail;
+  }
+
+  private handleCrossfadeBeatsChanged(e: CustomEvent<number>) {
+    this.sceneManager.crossfadeBeats = e.detail;
+    (this as any).requestUpdate();
+    this.dispatchUiStateChanged();
+  }
+
+  /** Sets the glow behind the grid; the trailing call catches the last change of a burst. */
   private readonly makeBackground = throttle(
     () => {
       const clamp01 = (v: number) => Math.min(Math.max(v, 0), 1);
@@ -228,6 +1005,8 @@ export class PromptDjMidi extends LitElement {
       const MAX_ALPHA = 0.5;
 
       const bg: string[] = [];
+      const columns = this.gridColumns;
+      const rows = gridRows(this.prompts.size, columns);
 
       [...this.prompts.values()].forEach((p, i) => {
         // Boost background glow based on audio level
@@ -236,56 +1015,463 @@ export class PromptDjMidi extends LitElement {
         const alpha = Math.round(alphaPct * 0xff).toString(16).padStart(2, '0');
 
         const stop = (p.weight / 2) + audioBoost;
-        const x = (i % 4) / 3;
-        const y = Math.floor(i / 4) / 3;
+        const x = columns > 1 ? (i % columns) / (columns - 1) : 0.5;
+        const y = rows > 1 ? Math.floor(i / columns) / (rows - 1) : 0.5;
         const s = `radial-gradient(circle at ${x * 100}% ${y * 100}%, ${p.color}${alpha} 0px, ${p.color}00 ${stop * 100}%)`;
 
         bg.push(s);
       });
 
-      return bg.join(', ');
+      this.backgroundImage = bg.join(', ');
     },
     30,
   );
 
+  /** Whether the grid's changes go to the cue session rather than the main output. */
+  public get isCueing() {
+    return this.cueing;
+  }
+
+  /** The prompts shown in the grid. */
+  public get currentPrompts(): Map<string, Prompt> {
+    return this.prompts;
+  }
+
+  /** UI settings that are persisted with the session. */
+  public get uiState(): UiState {
+    return {
+      showMidi: this.showMidi,
+      showConfig: this.showConfig,
+      showMaster: this.showMaster,
+      showFx: this.showFx,
+      midiInputIds: this.midiDispatcher.activeMidiInputIds,
+      crossfadeBeats: this.sceneManager.crossfadeBeats,
+      midiFeedback: this.midiFeedback.enabled,
+      midiOutputId: this.midiDispatcher.activeMidiOutputId,
+      feedbackScaling: this.midiFeedback.scaling,
+      clockIn: this.clockIn,
+      clockOut: this.clockOut,
+      keymap: this.keymap,
+      gridColumns: this.gridColumns,
+      showOutput: this.showOutput,
+      outputId: this.outputId,
+      cueOutputId: this.cueOutputId,
+      cueVolume: this.cueVolume,
+    };
+  }
+
+  /** Loads the saved scenes; errors reading them are dispatched, so listen for 'error' first. */
+  public restoreScenes() {
+    this.sceneManager.restore();
+  }
+
+  /** Applies UI settings restored from a previous session. */
+  public restoreUiState(state: UiState) {
+    this.midiDispatcher.activeMidiInputIds = state.midiInputIds;
+    this.midiDispatcher.activeMidiOutputId = state.midiOutputId;
+    this.midiFeedback.enabled = state.midiFeedback;
+    this.midiFeedback.scaling = state.feedbackScaling;
+    this.clockIn = state.clockIn;
+    this.keymap = state.keymap;
+    this.gridColumns = state.gridColumns;
+    this.showOutput = state.showOutput;
+    this.outputId = state.outputId;
+    this.cueOutputId = state.cueOutputId;
+    this.cueVolume = state.cueVolume;
+    this.sceneManager.crossfadeBeats = state.crossfadeBeats;
+    this.showConfig = state.showConfig;
+    this.showMaster = state.showMaster;
+    this.showFx = state.showFx;
+    (this as any).requestUpdate();
+    if (state.showMidi) {
+      this.setShowMidi(true).then(() => {
+        if (this.showMidi) this.setClockOut(state.clockOut);
+      });
+    }
+  }
+
+  private dispatchUiStateChanged() {
+    (this as unknown as HTMLElement).dispatchEvent(
+      new CustomEvent<UiState>('ui-state-changed', { detail: this.uiState }),
+    );
+  }
+
+  private toggleShowConfig() {
+    this.showConfig = !this.showConfig;
+    if (!this.showConfig) this.configMapper.cancelLearn();
+    this.dispatchUiStateChanged();
+  }
+
+  private handleConfigChanged(e: CustomEvent<LiveMusicGenerationConfig>) {
+    this.setGenerationConfig(e.detail);
+  }
+
+  private setGenerationConfig(config: LiveMusicGenerationConfig) {
+    this.generationConfig = config;
+    (this as unknown as HTMLElement).dispatchEvent(
+      new CustomEvent<LiveMusicGenerationConfig>('generation-config-changed', { detail: config }),
+    );
+  }
+
+  /** Feeds the tempo of incoming MIDI clock into the generation BPM. */
+  private handleClockTempo(tempo: number) {
+    this.clockBpm = tempo;
+    const bpm = Math.min(BPM_SPEC.max, Math.max(BPM_SPEC.min, tempo));
+    if (bpm === this.generationConfig.bpm) return;
+    this.setGenerationConfig({ ...this.generationConfig, bpm });
+  }
+
+  /** Start and continue play, stop pauses. */
+  private handleTransport({ command }: TransportMessage) {
+    const running = this.playbackState !== 'paused' && this.playbackState !== 'stopped';
+    if (command === 'stop' && running) this.playPause();
+    if (command !== 'stop' && !running) this.playPause();
+  }
+
+  /** Sends start when playback starts and stop when it ends, while clock out is on. */
+  private sendClockTransport() {
+    if (!this.clockOut) return;
+    const running = this.playbackState !== 'paused' && this.playbackState !== 'stopped';
+    // Flags first: a failed send clears them.
+    if (this.playbackState === 'playing' && !this.clockOutRunning) {
+      this.clockOutRunning = true;
+      this.clockGenerator.sendTransport(0xfa);
+    } else if (!running && this.clockOutRunning) {
+      this.clockOutRunning = false;
+      this.clockGenerator.sendTransport(0xfc);
+    }
+  }
+
+  private toggleClockIn() {
+    this.clockIn = !this.clockIn;
+    this.clockFollower.reset();
+    this.clockBpm = null;
+    this.dispatchUiStateChanged();
+  }
+
+  private toggleClockOut() {
+    this.setClockOut(!this.clockOut);
+    this.dispatchUiStateChanged();
+  }
+
+  private setClockOut(enabled: boolean) {
+    this.clockOut = enabled;
+    if (enabled) {
+      this.midiDispatcher.resolveOutput();
+      this.clockGenerator.start();
+      this.sendClockTransport();
+    } else {
+      if (this.clockOutRunning) this.clockGenerator.sendTransport(0xfc);
+      this.clockOutRunning = false;
+      this.clockGenerator.stop();
+    }
+  }
+
+  private toggleShowMaster() {
+    this.showMaster = !this.showMaster;
+    if (!this.showMaster) this.masterMapper.cancelLearn();
+    this.dispatchUiStateChanged();
+  }
+
+  private handleMasterChanged(e: CustomEvent<MasterSettings>) {
+    this.setMasterSettings(e.detail);
+  }
+
+  private setMasterSettings(settings: MasterSettings) {
+    this.masterSettings = settings;
+    (this as unknown as HTMLElement).dispatchEvent(
+      new CustomEvent<MasterSettings>('master-changed', { detail: settings }),
+    );
+  }
+
+  private toggleShowFx() {
+    this.showFx = !this.showFx;
+    if (!this.showFx) this.fxMapper.cancelLearn();
+    this.dispatchUiStateChanged();
+  }
+
+  private handleFxChanged(e: CustomEvent<FxSettings>) {
+    this.setFxSettings(e.detail);
+  }
+
+  private setFxSettings(settings: FxSettings) {
+    this.fxSettings = settings;
+    (this as unknown as HTMLElement).dispatchEvent(
+      new CustomEvent<FxSettings>('fx-changed', { detail: settings }),
+    );
+  }
+
+  private handleFxEngaged(e: CustomEvent<PerformanceFxChange>) {
+    this.engageFx(e.detail.fx, e.detail.on);
+  }
+
+  /** Holds or releases a performance effect, from the panel or a mapped CC. */
+  private engageFx(fx: PerformanceFx, on: boolean) {
+    // Releases of an effect that isn't held change nothing.
+    if (!on && this.engagedFx !== fx) return;
+    if (on && this.engagedFx === fx) return;
+    this.engagedFx = on ? fx : null;
+    (this as unknown as HTMLElement).dispatchEvent(
+      new CustomEvent<PerformanceFxChange>('fx-engaged', { detail: { fx, on } }),
+    );
+  }
+
+  private toggleShowOutput() {
+    this.showOutput = !this.showOutput;
+    this.dispatchUiStateChanged();
+  }
+
+  private handleOutputChanged(e: CustomEvent<string | null>) {
+    this.outputId = e.detail;
+    (this as unknown as HTMLElement).dispatchEvent(
+      new CustomEvent<string | null>('output-changed', { detail: e.detail }),
+    );
+    this.dispatchUiStateChanged();
+  }
+
+  private handleCueOutputChanged(e: CustomEvent<string | null>) {
+    this.cueOutputId = e.detail;
+    (this as unknown as HTMLElement).dispatchEvent(
+      new CustomEvent<string | null>('cue-output-changed', { detail: e.detail }),
+    );
+    this.dispatchUiStateChanged();
+  }
+
+  private handleCueVolumeChanged(e: CustomEvent<number>) {
+    this.cueVolume = e.detail;
+    (this as unknown as HTMLElement).dispatchEvent(
+      new CustomEvent<number>('cue-volume-changed', { detail: e.detail }),
+    );
+    this.dispatchUiStateChanged();
+  }
+
+  private setCueing(cueing: boolean) {
+    this.cueing = cueing;
+    (this as unknown as HTMLElement).dispatchEvent(
+      new CustomEvent<boolean>('cue-changed', { detail: cueing }),
+    );
+  }
+
+  /**
+   * Whether a cue can start: only on an output of its own, or the cue would
+   * play through the main speakers.
+   */
+  private get canCue() {
+    return this.outputSelectable && this.cueOutputId !== null && this.cueOutputId !== this.outputId;
+  }
+
+  /** Starts cueing the grid's changes, or cancels cueing and returns the grid to what is live. */
+  private toggleCue() {
+    if (!this.cueing) {
+      if (!this.canCue) return;
+      // Copies, since edits change the grid's prompts in place.
+      this.livePrompts = new Map([...this.prompts].map(([promptId, prompt]) => [promptId, { ...prompt }]));
+      this.setCueing(true);
+      return;
+    }
+    this.setCueing(false);
+    if (this.livePrompts) this.replacePrompts(this.livePrompts);
+    this.livePrompts = null;
+  }
+
+  /** Sends the cued grid to the main output. */
+  private goLive() {
+    this.livePrompts = null;
+    this.setCueing(false);
+    this.dispatchPromptsChanged();
+  }
+
+  private renderCueLabel() {
+    if (!this.cueing) return 'CUE';
+    return this.cuePlaybackState === 'playing' ? 'CUE ON' : 'CUE…';
+  }
+
   private toggleShowMidi() {
     return this.setShowMidi(!this.showMidi);
   }
 
   public async setShowMidi(show: boolean) {
     this.showMidi = show;
-    if (!this.showMidi) return;
+    if (!this.showMidi) {
+      this.configMapper.cancelLearn();
+      this.masterMapper.cancelLearn();
+      this.fxMapper.cancelLearn();
+      this.dispatchUiStateChanged();
+      return;
+    }
     try {
-      const inputIds = await this.midiDispatcher.getMidiAccess();
-      this.midiInputIds = inputIds;
-      this.activeMidiInputId = this.midiDispatcher.activeMidiInputId;
+      await this.midiDispatcher.getMidiAccess();
+      this.refreshMidiDevices();
     } catch (e) {
       this.showMidi = false;
-      (this as unknown as HTMLElement).dispatchEvent(new CustomEvent('error', {detail: (e as any).message}));
+      this.dispatchError(e instanceof AppError ? e : new AppError('midi-denied', 'midi', errorMessage(e), { cause: e }));
     }
+    this.dispatchUiStateChanged();
   }
 
-  private handleMidiInputChange(event: Event) {
+  private refreshMidiDevices() {
+    this.midiInputIds = this.midiDispatcher.getInputIds();
+    this.activeMidiInputIds = [...this.midiDispatcher.activeMidiInputIds];
+    this.midiOutputIds = this.midiDispatcher.getOutputIds();
+    this.activeMidiOutputId = this.midiDispatcher.resolveOutput();
+    // A device that was just plugged in shows whatever it had.
+    this.midiFeedback.resync();
+  }
+
+  private toggleMidiInput(id: string) {
+    this.midiDispatcher.setInputActive(id, !this.midiDispatcher.isInputActive(id));
+    this.activeMidiInputIds = [...this.midiDispatcher.activeMidiInputIds];
+    this.dispatchUiStateChanged();
+  }
+
+  private toggleMidiFeedback() {
+    this.midiFeedback.enabled = !this.midiFeedback.enabled;
+    this.midiFeedback.resync();
+    (this as any).requestUpdate();
+    this.dispatchUiStateChanged();
+  }
+
+  private handleMidiOutputChange(event: Event) {
     const selectElement = event.target as HTMLSelectElement;
-    const newMidiId = selectElement.value;
-    this.activeMidiInputId = newMidiId;
-    this.midiDispatcher.activeMidiInputId = newMidiId;
+    this.activeMidiOutputId = selectElement.value;
+    this.midiDispatcher.activeMidiOutputId = selectElement.value;
+    this.midiFeedback.resync();
+    this.dispatchUiStateChanged();
+  }
+
+  private handleFeedbackScalingChange(key: keyof FeedbackScaling, event: Event) {
+    const input = event.target as HTMLInputElement;
+    const value = Math.round(Math.min(127, Math.max(0, input.valueAsNumber)));
+    if (Number.isNaN(value)) return;
+    this.midiFeedback.setCurrentScaling({ ...this.midiFeedback.currentScaling, [key]: value });
+    (this as any).requestUpdate();
+    this.dispatchUiStateChanged();
+  }
+
+  private renderFeedbackControls() {
+    if (!this.showMidi) return '';
+    const enabled = this.midiFeedback.enabled;
+    const { min, max } = this.midiFeedback.currentScaling;
+    return html`
+      <button
+        @click=${this.toggleMidiFeedback}
+        class=${enabled ? 'active' : ''}
+        title="Echo weights to the controller"
+        >FEEDBACK</button
+      >
+      ${enabled ? html`
+        <select @change=${this.handleMidiOutputChange} .value=${this.activeMidiOutputId || ''}>
+          ${this.midiOutputIds.length > 0
+            ? this.midiOutputIds.map(
+              (id) => html`<option value=${id}>${this.midiDispatcher.getOutputName(id)}</option>`,
+            )
+            : html`<option value="">No outputs found</option>`}
+        </select>
+        <input
+          type="number" min="0" max="127" title="Value sent for weight 0"
+          .value=${String(min)}
+          @change=${(e: Event) => this.handleFeedbackScalingChange('min', e)} />
+        <input
+          type="number" min="0" max="127" title="Value sent for weight 2"
+          .value=${String(max)}
+          @change=${(e: Event) => this.handleFeedbackScalingChange('max', e)} />
+      ` : ''}
+    `;
+  }
+
+  private exportProfile() {
+    const inputIds = this.midiDispatcher.getInputIds();
+    const inputId = this.midiDispatcher.activeMidiInputIds.find((id) => inputIds.includes(id));
+    const device = inputId ? this.midiDispatcher.getDeviceName(inputId) : null;
+    const profile = createProfile(this.prompts, device);
+    const name = (device ?? 'prompts').replace(/[^a-z0-9]+/gi, '-').toLowerCase();
+    downloadBlob(profileToBlob(profile), `${name}.profile.json`);
+  }
+
+  private async importProfile() {
+    const file = this.profileInput.files?.[0];
+    this.profileInput.value = '';
+    if (!file) return;
+
+    const { profile, errors } = parseProfile(await file.text());
+    if (!profile) {
+      this.dispatchError(new AppError(
+        'invalid-file',
+        'profile',
+        `Could not import ${file.name}:\n${formatValidationErrors(errors, 8)}`,
+      ));
+      return;
+    }
+
+    this.replacePrompts(new Map(profile.prompts.map((p) => [p.promptId, p])));
+
+    const inputId = profile.device ? this.midiDispatcher.findInputByName(profile.device) : null;
+    if (inputId) {
+      this.midiDispatcher.setInputActive(inputId, true);
+      this.activeMidiInputIds = [...this.midiDispatcher.activeMidiInputIds];
+      this.dispatchUiStateChanged();
+    }
   }
 
   private playPause() {
     (this as unknown as HTMLElement).dispatchEvent(new CustomEvent('play-pause'));
   }
 
-  public addFilteredPrompt(prompt: string) {
-    this.filteredPrompts = new Set([...this.filteredPrompts, prompt]);
+  private toggleRecording() {
+    (this as unknown as HTMLElement).dispatchEvent(new CustomEvent('record-toggle'));
+  }
+
+  private exportRecording(format: RecordingFormat) {
+    (this as unknown as HTMLElement).dispatchEvent(
+      new CustomEvent<RecordingFormat>('record-export', { detail: format }),
+    );
+  }
+
+  private renderRecordLabel() {
+    if (this.recorderState === 'armed') return 'ARMED';
+    if (this.recorderState === 'idle') return 'REC';
+    const minutes = Math.floor(this.recordedSeconds / 60);
+    const seconds = Math.floor(this.recordedSeconds % 60).toString().padStart(2, '0');
+    return `● ${minutes}:${seconds}`;
+  }
+
+  private renderBufferHealth() {
+    const health = this.bufferHealth;
+    if (!health || this.playbackState === 'stopped') return '';
+    const low = health.bufferedMs < health.targetLatencyMs / 4;
+    return html`<div id="buffer-health" class=${low ? 'low' : ''}>
+      BUF ${(health.bufferedMs / 1000).toFixed(2)}s/${(health.targetLatencyMs / 1000).toFixed(2)}s
+      · JIT ${health.jitterMs}ms · XRUN ${health.underruns}
+    </div>`;
+  }
+
+  private dispatchError(error: AppError) {
+    (this as unknown as HTMLElement).dispatchEvent(new CustomEvent<AppError>('error', { detail: error }));
+  }
+
+  private toggleShowFiltered() {
+    this.showFiltered = !this.showFiltered;
+  }
+
+  private retryFilteredPrompt(e: CustomEvent<FilteredPrompt>) {
+    (this as unknown as HTMLElement).dispatchEvent(
+      new CustomEvent<FilteredPrompt>('filtered-prompt-retry', { detail: e.detail }),
+    );
   }
 
   render() {
     const bg = styleMap({
-      backgroundImage: this.makeBackground(),
+      backgroundImage: this.backgroundImage,
     });
 
+    // Square cells that fit the grid's longer side into 80vmin.
+    const rows = gridRows(this.prompts.size + (this.canAddPrompt ? 1 : 0), this.gridColumns);
+    const cell = 80 / Math.max(this.gridColumns, rows);
     const gridStyles = styleMap({
+      width: `${cell * this.gridColumns}vmin`,
+      height: `${cell * rows}vmin`,
+      gridTemplateColumns: `repeat(${this.gridColumns}, 1fr)`,
+      gridTemplateRows: `repeat(${rows}, 1fr)`,
       transform: `scale(${1 + this.audioLevel * 0.05})`, // Subtle pulse
       filter: `brightness(${1 + this.audioLevel * 0.5})`,
     });
@@ -294,44 +1480,249 @@ export class PromptDjMidi extends LitElement {
       <div id="background" style=${bg}></div>
       <canvas id="visualizer-canvas"></canvas>
       <div class="vignette"></div>
-      
+      ${this.renderBufferHealth()}
+
       <div id="buttons">
         <button
           @click=${this.toggleShowMidi}
           class=${this.showMidi ? 'active' : ''}
           >MIDI</button
         >
-        <select
-          @change=${this.handleMidiInputChange}
-          .value=${this.activeMidiInputId || ''}
-          style=${this.showMidi ? '' : 'visibility: hidden'}>
+        <div id="midi-inputs" style=${this.showMidi ? '' : 'visibility: hidden'}>
           ${this.midiInputIds.length > 0
         ? this.midiInputIds.map(
           (id) =>
-            html`<option value=${id}>
-                    ${this.midiDispatcher.getDeviceName(id)}
-                  </option>`,
+            html`<button
+                    class=${this.activeMidiInputIds.includes(id) ? 'active' : ''}
+                    @click=${() => this.toggleMidiInput(id)}
+                    >${this.midiDispatcher.getDeviceName(id)}</button
+                  >`,
         )
-        : html`<option value="">No devices found</option>`}
-        </select>
+        : html`<span>No devices found</span>`}
+        </div>
+        ${this.renderFeedbackControls()}
+        ${this.showMidi ? html`
+          <button
+            @click=${this.toggleClockIn}
+            class=${this.clockIn ? 'active' : ''}
+            title="Follow tempo, start and stop from MIDI clock"
+            >CLOCK IN${this.clockIn ? ` ${this.clockBpm ?? '--'}` : ''}</button
+          >
+          <button
+            @click=${this.toggleClockOut}
+            class=${this.clockOut ? 'active' : ''}
+            title="Send MIDI clock at the generation BPM"
+            >CLOCK OUT</button
+          >` : ''}
+        <button
+          @click=${this.toggleShowConfig}
+          class=${this.showConfig ? 'active' : ''}
+          >CONFIG</button
+        >
+        <button
+          @click=${this.toggleShowMaster}
+          class=${this.showMaster ? 'active' : ''}
+          title="Volume, EQ, filter and limiter on the output"
+          >MASTER</button
+        >
+        <button
+          @click=${this.toggleShowOutput}
+          class=${this.showOutput ? 'active' : ''}
+          title="Audio outputs of the main mix and the cue"
+          >OUTPUT</button
+        >
+        <button
+          @click=${this.toggleCue}
+          class=${this.cueing ? 'cue' : ''}
+          ?disabled=${!this.cueing && !this.canCue}
+          title=${this.cueing
+            ? 'Cancel the cue and return the grid to what is playing'
+            : this.canCue
+              ? "Send the grid's changes to a second session on the cue output"
+              : 'Choose a cue output other than the main one under OUTPUT'}
+          >${this.renderCueLabel()}</button
+        >
+        ${this.cueing ? html`<button
+            @click=${this.goLive}
+            title="Play the cued grid on the main output"
+            >GO LIVE</button
+          >` : ''}
+        <button
+          @click=${this.toggleShowFx}
+          class=${this.showFx ? 'active' : ''}
+          title="Delay, reverb, beat repeat and tape stop"
+          >FX</button
+        >
+        <button
+          @click=${this.toggleShowKeymap}
+          class=${this.showKeymap ? 'active' : ''}
+          title="Keyboard shortcuts (?)"
+          >KEYS</button
+        >
+        <button
+          @click=${this.toggleShowTakes}
+          class=${this.showTakes ? 'active' : ''}
+          title="Record and replay the grid's changes"
+          >TAKES</button
+        >
+        <button
+          @click=${this.toggleEditingGrid}
+          class=${this.editingGrid ? 'active' : ''}
+          title="Add, remove, reorder and color prompts"
+          >EDIT</button
+        >
+        ${this.renderGridControls()}
+        ${this.filteredPrompts.length > 0 || this.showFiltered ? html`<button
+            @click=${this.toggleShowFiltered}
+            class=${this.showFiltered ? 'active' : 'filtered'}
+            title="Prompts the server refused"
+            >FILTERED ${this.filteredPrompts.length}</button
+          >` : ''}
+        <button @click=${this.exportProfile}>EXPORT</button>
+        <button @click=${() => this.profileInput.click()}>IMPORT</button>
+        <input
+          id="profile-input"
+          type="file"
+          accept="application/json,.json"
+          hidden
+          @change=${this.importProfile} />
+        <button
+          @click=${this.toggleRecording}
+          class=${this.recorderState === 'idle' ? '' : this.recorderState}
+          >${this.renderRecordLabel()}</button
+        >
+        <button
+          @click=${() => this.exportRecording('wav')}
+          ?disabled=${this.recorderState !== 'idle' || this.recordedSeconds === 0}
+          >WAV</button
+        >
+        <button
+          @click=${() => this.exportRecording('flac')}
+          ?disabled=${this.recorderState !== 'idle' || this.recordedSeconds === 0}
+          >FLAC</button
+        >
       </div>
       
-      <div id="grid" style=${gridStyles}>${this.renderPrompts()}</div>
+      <div id="side-panels">
+        ${this.showOutput ? html`<output-panel
+              .outputs=${this.audioOutputs}
+              .selectable=${this.outputSelectable}
+              .outputId=${this.outputId}
+              .cueOutputId=${this.cueOutputId}
+              .cueVolume=${this.cueVolume}
+              @output-changed=${this.handleOutputChanged}
+              @cue-output-changed=${this.handleCueOutputChanged}
+              @cue-volume-changed=${this.handleCueVolumeChanged}
+            ></output-panel>` : ''}
+        ${this.showFx ? html`<fx-panel
+              .settings=${this.fxSettings}
+              .engaged=${this.engagedFx}
+              .showMidi=${this.showMidi}
+              .mapper=${this.fxMapper}
+              @fx-changed=${this.handleFxChanged}
+              @fx-engaged=${this.handleFxEngaged}
+            ></fx-panel>` : ''}
+        ${this.showMaster ? html`<master-panel
+              .settings=${this.masterSettings}
+              .showMidi=${this.showMidi}
+              .mapper=${this.masterMapper}
+              @master-changed=${this.handleMasterChanged}
+            ></master-panel>` : ''}
+        ${this.showConfig ? html`<generation-config-panel
+              .config=${this.generationConfig}
+              .showMidi=${this.showMidi}
+              .mapper=${this.configMapper}
+              @config-changed=${this.handleConfigChanged}
+            ></generation-config-panel>` : ''}
+      </div>
+
+      ${this.showKeymap ? html`<keymap-overlay
+            .keymap=${this.keymap}
+            @keymap-changed=${this.handleKeymapChanged}
+            @close=${this.toggleShowKeymap}
+          ></keymap-overlay>` : ''}
+
+      ${this.showFiltered ? html`<filtered-prompt-panel
+            .filteredPrompts=${this.filteredPrompts}
+            @retry=${this.retryFilteredPrompt}
+            @close=${this.toggleShowFiltered}
+          ></filtered-prompt-panel>` : ''}
+
+      ${this.showTakes ? html`<gesture-timeline
+            .take=${this.gestureTake}
+            .gestureState=${this.gestureState}
+            .position=${this.gesturePosition}
+            .prompts=${this.prompts}
+            @take-record=${() => this.gestureRecorder.record(this.prompts)}
+            @take-play=${() => this.gestureRecorder.play()}
+            @take-overdub=${() => this.gestureRecorder.overdub()}
+            @take-stop=${() => this.gestureRecorder.stop()}
+            @take-save=${this.saveTake}
+            @take-load=${this.loadTake}
+          ></gesture-timeline>` : ''}
+
+      <div id="grid" class=${this.cueing ? 'cueing' : ''} style=${gridStyles}>${this.renderPrompts()}</div>
       
       <play-pause-button 
         .playbackState=${this.playbackState} 
         @click=${this.playPause}
         style=${styleMap({ transform: `scale(${1 + this.audioLevel * 0.1})` })}
       ></play-pause-button>
+
+      <scene-bar
+        .scenes=${this.scenes}
+        .activeScene=${this.activeScene}
+        .learningScene=${this.learningScene}
+        .crossfadeBeats=${this.sceneManager.crossfadeBeats}
+        .showMidi=${this.showMidi}
+        @scene-save=${this.saveScene}
+        @scene-recall=${this.handleSceneRecall}
+        @scene-delete=${this.handleSceneDelete}
+        @scene-learn=${this.handleSceneLearn}
+        @crossfade-beats-changed=${this.handleCrossfadeBeatsChanged}
+      ></scene-bar>
     `;
   }
 
+  private get canAddPrompt() {
+    return this.editingGrid && this.prompts.size < MAX_PROMPTS;
+  }
+
   private renderPrompts() {
-    return [...this.prompts.values()].map((prompt) => {
+    const soloActive = [...this.prompts.values()].some((p) => p.solo);
+    const filteredTexts = new Set(this.filteredPrompts.map((p) => p.text));
+    // Keyed, so reordering or removing a prompt moves its controller instead of
+    // rebinding every later one and leaving its open editors and learn state on the wrong prompt.
+    const cells = repeat(this.prompts.values(), (prompt) => prompt.promptId, (prompt) => {
       return html`<prompt-controller
+        class=${this.dropTargetId === prompt.promptId ? 'drop-target' : ''}
+        draggable=${this.editingGrid ? 'true' : 'false'}
+        @dragstart=${(e: DragEvent) => this.handleDragStart(e, prompt.promptId)}
+        @dragover=${(e: DragEvent) => this.handleDragOver(e, prompt.promptId)}
+        @drop=${(e: DragEvent) => this.handleDrop(e, prompt.promptId)}
+        @dragend=${this.handleDragEnd}
+        ?editing=${this.editingGrid}
+        @prompt-removed=${this.handlePromptRemoved}
         promptId=${prompt.promptId}
-        ?filtered=${this.filteredPrompts.has(prompt.text)}
+        ?filtered=${filteredTexts.has(prompt.text)}
+        ?muted=${prompt.muted}
+        ?solo=${prompt.solo}
+        ?silenced=${!prompt.muted && !isAudible(prompt, soloActive)}
+        ?selected=${prompt.promptId === this.selectedPromptId}
         cc=${prompt.cc}
+        channel=${prompt.channel}
+        .note=${prompt.note}
+        .noteChannel=${prompt.noteChannel}
+        .device=${prompt.device}
+        .noteDevice=${prompt.noteDevice}
+        .response=${prompt.response}
+        .muteButton=${prompt.muteButton}
+        .soloButton=${prompt.soloButton}
+        .latch=${prompt.latch}
+        .automation=${prompt.automation}
+        .modulatedWeight=${this.modulatedWeights.get(prompt.promptId) ?? null}
+        ?recordingLoop=${this.automation.isRecording(prompt.promptId)}
+        @loop-record=${this.handleLoopRecord}
         text=${prompt.text}
         weight=${prompt.weight}
         color=${prompt.color}
@@ -341,6 +1732,10 @@ export class PromptDjMidi extends LitElement {
         @prompt-changed=${this.handlePromptChanged}>
       </prompt-controller>`;
     });
+    const addButton = this.canAddPrompt
+      ? html`<button id="add-prompt" title="Add a prompt" @click=${this.addGridPrompt}>+</button>`
+      : '';
+    return html`${cells}${addButton}`;
   }
 }
 
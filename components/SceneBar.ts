@@ -0,0 +1,123 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+
+import type { Scene } from '../types';
+
+/** Crossfade lengths offered in the scene bar, in beats. */
+const CROSSFADE_BEATS = [0, 1, 2, 4, 8, 16, 32];
+
+/** A row of saved scenes that can be recalled, learned and deleted. */
+@customElement('scene-bar')
+export class SceneBar extends LitElement {
+  static styles = css`
+    :host {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      flex-wrap: wrap;
+      justify-content: center;
+      font-family: 'Courier New', monospace;
+      font-size: 12px;
+    }
+    .scene {
+      display: flex;
+      align-items: stretch;
+      border: 1px solid rgba(255, 255, 255, 0.3);
+      border-radius: 4px;
+      background: rgba(0, 0, 0, 0.6);
+      overflow: hidden;
+      &.active {
+        border-color: #fff;
+        box-shadow: 0 0 10px rgba(255, 255, 255, 0.4);
+      }
+    }
+    button {
+      font: inherit;
+      color: #fff;
+      background: transparent;
+      border: none;
+      cursor: pointer;
+      padding: 4px 8px;
+      &:hover {
+        background: rgba(255, 255, 255, 0.15);
+      }
+    }
+    .name {
+      font-weight: 700;
+      text-transform: uppercase;
+    }
+    .note {
+      color: #ffffffaa;
+      border-left: 1px solid rgba(255, 255, 255, 0.2);
+      &.learn {
+        color: #ffcc00;
+      }
+    }
+    .delete {
+      color: #ffffff66;
+    }
+    .add {
+      border: 1px dashed rgba(255, 255, 255, 0.4);
+      border-radius: 4px;
+    }
+    select {
+      font: inherit;
+      background: rgba(255, 255, 255, 0.9);
+      color: #000;
+      border: none;
+      border-radius: 4px;
+      padding: 3px 6px;
+    }
+  `;
+
+  @property({ type: Array }) scenes: readonly Scene[] = [];
+  @property({ type: String }) activeScene: string | null = null;
+  @property({ type: String }) learningScene: string | null = null;
+  @property({ type: Number }) crossfadeBeats = 4;
+  @property({ type: Boolean }) showMidi = false;
+
+  private dispatch<T>(type: string, detail?: T) {
+    (this as unknown as HTMLElement).dispatchEvent(new CustomEvent<T>(type, { detail }));
+  }
+
+  private handleBeatsChange(e: Event) {
+    const select = e.target as HTMLSelectElement;
+    this.dispatch<number>('crossfade-beats-changed', Number(select.value));
+  }
+
+  private renderScene(scene: Scene) {
+    const learning = this.learningScene === scene.name;
+    return html`<div class=${classMap({ scene: true, active: this.activeScene === scene.name })}>
+      <button class="name" @click=${() => this.dispatch('scene-recall', scene.name)}>${scene.name}</button>
+      ${this.showMidi ? html`<button
+            class=${classMap({ note: true, learn: learning })}
+            @click=${() => this.dispatch('scene-learn', scene.name)}>
+            ${learning ? 'LEARN' : scene.note === null ? 'NOTE:-' : `NOTE:${scene.note}`}
+          </button>` : ''}
+      <button class="delete" title="Delete scene" @click=${() => this.dispatch('scene-delete', scene.name)}>✕</button>
+    </div>`;
+  }
+
+  render() {
+    return html`
+      ${this.scenes.map((scene) => this.renderScene(scene))}
+      <button class="add" @click=${() => this.dispatch('scene-save')}>+ SCENE</button>
+      <select .value=${String(this.crossfadeBeats)} @change=${this.handleBeatsChange} title="Crossfade length">
+        ${CROSSFADE_BEATS.map((beats) => html`<option value=${beats} ?selected=${beats === this.crossfadeBeats}>
+          ${beats === 0 ? 'CUT' : `${beats} BEAT${beats === 1 ? '' : 'S'}`}
+        </option>`)}
+      </select>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'scene-bar': SceneBar;
+  }
+}
@@ -1,85 +0,0 @@
-/**
- * @license
- * SPDX-License-Identifier: Apache-2.0
-*/
-import { css, html, LitElement } from 'lit';
-import { customElement, property } from 'lit/decorators.js';
-import { classMap } from 'lit/directives/class-map.js';
-
-@customElement('toast-message')
-export class ToastMessage extends LitElement {
-  // Fix: Remove override
-  static styles = css`
-    .toast {
-      line-height: 1.6;
-      position: fixed;
-      top: 20px;
-      left: 50%;
-      transform: translateX(-50%);
-      background-color: #000;
-      color: white;
-      padding: 15px;
-      border-radius: 5px;
-      display: flex;
-      align-items: center;
-      justify-content: space-between;
-      gap: 15px;
-      width: min(450px, 80vw);
-      transition: transform 0.5s cubic-bezier(0.19, 1, 0.22, 1);
-      border: 2px solid #fff;
-      box-shadow: 0 0 10px 0 rgba(0, 0, 0, 0.5);
-      text-wrap: pretty;
-    }
-    button {
-      border-radius: 100px;
-      aspect-ratio: 1;
-      border: none;
-      color: #000;
-      cursor: pointer;
-    }
-    .toast:not(.showing) {
-      transition-duration: 1s;
-      transform: translate(-50%, -200%);
-    }
-    a {
-      color: #acacac;
-      text-decoration: underline;
-    }
-  `;
-
-  @property({ type: String }) message = '';
-  @property({ type: Boolean }) showing = false;
-
-  private renderMessageWithLinks() {
-    const urlRegex = /(https?:\/\/[^\s]+)/g;
-    const parts = this.message.split( urlRegex );
-    return parts.map( ( part, i ) => {
-      if ( i % 2 === 0 ) return part;
-      return html`<a href=${part} target="_blank" rel="noopener">${part}</a>`;
-    } );
-  }
-
-  // Fix: Remove override
-  render() {
-    return html`<div class=${classMap({ showing: this.showing, toast: true })}>
-      <div class="message">${this.renderMessageWithLinks()}</div>
-      <button @click=${this.hide}>✕</button>
-    </div>`;
-  }
-
-  show(message: string) {
-    this.showing = true;
-    this.message = message;
-  }
-
-  hide() {
-    this.showing = false;
-  }
-
-}
-
-declare global {
-  interface HTMLElementTagNameMap {
-    'toast-message': ToastMessage
-  }
-}
\ No newline at end of file
@@ -2,7 +2,7 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { css, html, LitElement } from 'lit';
+import { css, html, LitElement, svg } from 'lit';
 import { customElement, property } from 'lit/decorators.js';
 import { styleMap } from 'lit/directives/style-map.js';
 
@@ -50,6 +50,12 @@ export class WeightKnob extends LitElement {
   @property({ type: Number }) value = 0;
   @property({ type: String }) color = '#000';
   @property({ type: Number }) audioLevel = 0;
+  @property({ type: Boolean }) muted = false;
+  @property({ type: Boolean }) solo = false;
+  /** Not heard because another knob is soloed. */
+  @property({ type: Boolean }) silenced = false;
+  /** Weight after automation, drawn as a thin outer arc; null when unmodulated. */
+  @property({ type: Number }) modulated: number | null = null;
 
   private dragStartPos = 0;
   private dragStartValue = 0;
@@ -122,12 +128,19 @@ export class WeightKnob extends LitElement {
       transform: `translate(40px, 40px) rotate(${rot}rad)`,
     });
 
-    let scale = (this.value / 2) * (MAX_HALO_SCALE - MIN_HALO_SCALE);
+    // The halo follows what is heard, so it moves with automation.
+    const heard = this.modulated ?? this.value;
+    let scale = (heard / 2) * (MAX_HALO_SCALE - MIN_HALO_SCALE);
     scale += MIN_HALO_SCALE;
     scale += this.audioLevel * HALO_LEVEL_MODIFIER;
 
+    // The arc keeps showing the weight that returns on unmute.
+    const audible = !this.muted && !this.silenced;
+    let arcColor = this.solo ? '#ffcc00' : '#fff';
+    if (!audible) arcColor = '#fff6';
+
     const haloStyle = styleMap({
-      display: this.value > 0 ? 'block' : 'none',
+      display: heard > 0 && audible ? 'block' : 'none',
       background: this.color,
       transform: `scale(${scale})`,
     });
@@ -153,9 +166,24 @@ export class WeightKnob extends LitElement {
         <path
           d=${this.describeArc(40, 40, minRot, rot, 34.5)}
           fill="none"
-          stroke="#fff"
+          stroke=${arcColor}
           stroke-width="3"
           stroke-linecap="round" />
+        ${this.modulated !== null ? svg`<path
+            d=${this.describeArc(40, 40, minRot, minRot + (this.modulated / 2) * (maxRot - minRot), 38.5)}
+            fill="none"
+            stroke=${audible ? '#00ffcc' : '#00ffcc66'}
+            stroke-width="1.5"
+            stroke-linecap="round" />` : ''}
+        ${this.muted || this.solo ? svg`<text
+            x="40"
+            y="44"
+            text-anchor="middle"
+            font-family="Courier New, monospace"
+            font-size="12"
+            font-weight="700"
+            fill=${this.muted ? '#0008' : '#b38f00'}
+            pointer-events="none">${this.muted ? 'M' : 'S'}</text>` : ''}
       </svg>
     `;
   }
@@ -5,48 +5,255 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import type { PlaybackState, Prompt } from './types';
-import { GoogleGenAI, LiveMusicFilteredPrompt } from '@google/genai';
+import type {
+  AudioOutput,
+  FilteredPrompt,
+  FxSettings,
+  MasterSettings,
+  PerformanceFxChange,
+  PlaybackState,
+  Prompt,
+  RecorderState,
+} from './types';
+import { GoogleGenAI, LiveMusicFilteredPrompt, LiveMusicGenerationConfig } from '@google/genai';
 import { PromptDjMidi } from './components/PromptDjMidi';
-import { ToastMessage } from './components/ToastMessage';
-import { LiveMusicHelper } from './utils/LiveMusicHelper';
+import { NotificationCenter } from './components/NotificationCenter';
+import { LiveMusicHelper, type ReconnectAttempt } from './utils/LiveMusicHelper';
+import type { MusicBackend } from './utils/MusicBackend';
+import type { BufferHealth } from './utils/JitterBuffer';
+import { LyriaBackend } from './utils/LyriaBackend';
+import { MockMusicBackend } from './utils/MockMusicBackend';
 import { AudioAnalyser } from './utils/AudioAnalyser';
+import { AudioRecorder, type RecordingFormat } from './utils/AudioRecorder';
+import { AudioOutputs, canChooseOutput } from './utils/AudioOutputs';
+import { downloadBlob } from './utils/download';
+import { SessionStore } from './utils/SessionStore';
+import { DEFAULT_GENERATION_CONFIG } from './utils/generationConfig';
+import { DEFAULT_MASTER_SETTINGS } from './utils/masterSettings';
+import { DEFAULT_FX_SETTINGS } from './utils/fxSettings';
+import { blankPrompt } from './utils/promptGrid';
+import { AppError, type ErrorAction } from './utils/errors';
 
 // Using the provided API key from environment
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 const model = 'lyria-realtime-exp';
 
+/**
+ * Picks the music backend: `?backend=mock` in the URL, else MUSIC_BACKEND
+ * from the environment, else Lyria. The mock backend runs fully offline.
+ */
+function createMusicBackend(): MusicBackend {
+  const name = new URLSearchParams(window.location.search).get('backend')
+    ?? process.env.MUSIC_BACKEND
+    ?? 'lyria';
+  if (name === 'mock') return new MockMusicBackend();
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  return new LyriaBackend(ai, model);
+}
+
 function main() {
-  const initialPrompts = buildInitialPrompts();
+  // Created first, so problems with the stored session can be reported.
+  const notificationCenter = new NotificationCenter();
+  document.body.appendChild(notificationCenter as unknown as Node);
+
+  const notifyError = ((e: Event) => {
+    const customEvent = e as CustomEvent<AppError>;
+    notificationCenter.notify(customEvent.detail);
+  });
+
+  const sessionStore = new SessionStore();
+  sessionStore.addEventListener('error', notifyError);
+  const session = sessionStore.load();
+  const initialPrompts = session
+    ? new Map(session.prompts.map((p) => [p.promptId, p]))
+    : buildInitialPrompts();
+
+  const generationConfig = session?.generationConfig ?? DEFAULT_GENERATION_CONFIG;
 
   const pdjMidi = new PromptDjMidi(initialPrompts);
+  (pdjMidi as unknown as HTMLElement).addEventListener('error', notifyError);
+  pdjMidi.restoreScenes();
+  pdjMidi.generationConfig = generationConfig;
+  pdjMidi.configMappings = session?.configMappings ?? [];
+  pdjMidi.masterSettings = session?.master ?? DEFAULT_MASTER_SETTINGS;
+  pdjMidi.masterMappings = session?.masterMappings ?? [];
+  pdjMidi.fxSettings = session?.fx ?? DEFAULT_FX_SETTINGS;
+  pdjMidi.fxMappings = session?.fxMappings ?? [];
   document.body.appendChild(pdjMidi as unknown as Node);
+  if (session) pdjMidi.restoreUiState(session);
 
-  const toastMessage = new ToastMessage();
-  document.body.appendChild(toastMessage as unknown as Node);
+  const saveSession = () => {
+    sessionStore.scheduleSave(() => ({
+      prompts: [...pdjMidi.currentPrompts.values()],
+      generationConfig: pdjMidi.generationConfig,
+      configMappings: pdjMidi.configMappings,
+      master: pdjMidi.masterSettings,
+      masterMappings: pdjMidi.masterMappings,
+      fx: pdjMidi.fxSettings,
+      fxMappings: pdjMidi.fxMappings,
+      ...pdjMidi.uiState,
+    }));
+  };
 
-  const liveMusicHelper = new LiveMusicHelper(ai, model);
+  const liveMusicHelper = new LiveMusicHelper(createMusicBackend());
   liveMusicHelper.setWeightedPrompts(initialPrompts);
+  liveMusicHelper.setMusicGenerationConfig(generationConfig);
+  liveMusicHelper.master.apply(pdjMidi.masterSettings);
+  liveMusicHelper.fx.apply(pdjMidi.fxSettings);
+  if (session?.outputId) liveMusicHelper.setOutputDevice(session.outputId);
+
+  // A second session, heard on the cue output, that takes the grid's changes while cueing.
+  const cueHelper = new LiveMusicHelper(createMusicBackend());
+  cueHelper.setMusicGenerationConfig(generationConfig);
+  cueHelper.master.apply({ ...DEFAULT_MASTER_SETTINGS, volume: session?.cueVolume ?? 1 });
+  if (session?.cueOutputId) cueHelper.setOutputDevice(session.cueOutputId);
+
+  /** Where the grid's changes are heard. */
+  const promptTarget = () => (pdjMidi.isCueing ? cueHelper : liveMusicHelper);
+
+  const audioOutputs = new AudioOutputs();
+  pdjMidi.outputSelectable = canChooseOutput(liveMusicHelper.audioContext);
+  audioOutputs.addEventListener('outputs-changed', ((e: Event) => {
+    const customEvent = e as CustomEvent<AudioOutput[]>;
+    pdjMidi.audioOutputs = customEvent.detail;
+  }));
+  audioOutputs.addEventListener('error', notifyError);
+  audioOutputs.start();
 
   const audioContext = liveMusicHelper.audioContext;
   const audioAnalyser = new AudioAnalyser(audioContext);
   liveMusicHelper.extraDestination = audioAnalyser.node;
 
+  const audioRecorder = new AudioRecorder(audioContext.sampleRate, 2);
+  audioRecorder.setPrompts(initialPrompts);
+
   (pdjMidi as unknown as HTMLElement).addEventListener('prompts-changed', ((e: Event) => {
+    const customEvent = e as CustomEvent<Map<string, Prompt>>;
+    const prompts = customEvent.detail;
+    promptTarget().setWeightedPrompts(prompts);
+    // Recordings are of the main output, so cued changes aren't theirs.
+    if (!pdjMidi.isCueing) audioRecorder.setPrompts(prompts);
+    saveSession();
+  }));
+
+  // Automation moving weights between edits; nothing new to save.
+  (pdjMidi as unknown as HTMLElement).addEventListener('prompts-modulated', ((e: Event) => {
+    const customEvent = e as CustomEvent<Map<string, Prompt>>;
+    const prompts = customEvent.detail;
+    promptTarget().setWeightedPrompts(prompts);
+    if (!pdjMidi.isCueing) audioRecorder.setPrompts(prompts);
+  }));
+
+  // The main output's automation, while the grid is cued.
+  (pdjMidi as unknown as HTMLElement).addEventListener('live-prompts-modulated', ((e: Event) => {
     const customEvent = e as CustomEvent<Map<string, Prompt>>;
     const prompts = customEvent.detail;
     liveMusicHelper.setWeightedPrompts(prompts);
+    audioRecorder.setPrompts(prompts);
+  }));
+
+  (pdjMidi as unknown as HTMLElement).addEventListener('ui-state-changed', saveSession);
+  (pdjMidi as unknown as HTMLElement).addEventListener('config-mappings-changed', saveSession);
+  (pdjMidi as unknown as HTMLElement).addEventListener('master-mappings-changed', saveSession);
+
+  (pdjMidi as unknown as HTMLElement).addEventListener('master-changed', ((e: Event) => {
+    const customEvent = e as CustomEvent<MasterSettings>;
+    liveMusicHelper.master.apply(customEvent.detail);
+    saveSession();
+  }));
+
+  (pdjMidi as unknown as HTMLElement).addEventListener('fx-mappings-changed', saveSession);
+
+  (pdjMidi as unknown as HTMLElement).addEventListener('fx-changed', ((e: Event) => {
+    const customEvent = e as CustomEvent<FxSettings>;
+    liveMusicHelper.fx.apply(customEvent.detail);
+    saveSession();
+  }));
+
+  (pdjMidi as unknown as HTMLElement).addEventListener('fx-engaged', ((e: Event) => {
+    const customEvent = e as CustomEvent<PerformanceFxChange>;
+    liveMusicHelper.fx.engage(customEvent.detail.fx, customEvent.detail.on);
+  }));
+
+  (pdjMidi as unknown as HTMLElement).addEventListener('generation-config-changed', ((e: Event) => {
+    const customEvent = e as CustomEvent<LiveMusicGenerationConfig>;
+    liveMusicHelper.setMusicGenerationConfig(customEvent.detail);
+    cueHelper.setMusicGenerationConfig(customEvent.detail);
+    saveSession();
+  }));
+
+  (pdjMidi as unknown as HTMLElement).addEventListener('cue-changed', ((e: Event) => {
+    const customEvent = e as CustomEvent<boolean>;
+    if (customEvent.detail) {
+      cueHelper.setWeightedPrompts(pdjMidi.currentPrompts);
+      cueHelper.play();
+    } else {
+      cueHelper.stop();
+      // The next cue starts a fresh session.
+      cueHelper.filteredPrompts.retain([]);
+    }
+  }));
+
+  (pdjMidi as unknown as HTMLElement).addEventListener('output-changed', ((e: Event) => {
+    const customEvent = e as CustomEvent<string | null>;
+    liveMusicHelper.setOutputDevice(customEvent.detail);
+  }));
+
+  (pdjMidi as unknown as HTMLElement).addEventListener('cue-output-changed', ((e: Event) => {
+    const customEvent = e as CustomEvent<string | null>;
+    cueHelper.setOutputDevice(customEvent.detail);
+  }));
+
+  (pdjMidi as unknown as HTMLElement).addEventListener('cue-volume-changed', ((e: Event) => {
+    const customEvent = e as CustomEvent<number>;
+    cueHelper.master.apply({ ...DEFAULT_MASTER_SETTINGS, volume: customEvent.detail });
+  }));
+
+  cueHelper.addEventListener('playback-state-changed', ((e: Event) => {
+    const customEvent = e as CustomEvent<PlaybackState>;
+    pdjMidi.cuePlaybackState = customEvent.detail;
   }));
 
   (pdjMidi as unknown as HTMLElement).addEventListener('play-pause', () => {
     liveMusicHelper.playPause();
   });
 
+  (pdjMidi as unknown as HTMLElement).addEventListener('record-toggle', () => {
+    if (audioRecorder.recorderState !== 'idle') {
+      audioRecorder.stop();
+    } else if (pdjMidi.playbackState === 'playing') {
+      audioRecorder.start();
+    } else {
+      audioRecorder.arm();
+    }
+  });
+
+  (pdjMidi as unknown as HTMLElement).addEventListener('record-export', ((e: Event) => {
+    const customEvent = e as CustomEvent<RecordingFormat>;
+    const format = customEvent.detail;
+    downloadBlob(audioRecorder.export(format), audioRecorder.fileName(format));
+  }));
+
+  liveMusicHelper.addEventListener('audio-data', ((e: Event) => {
+    const customEvent = e as CustomEvent<Float32Array[]>;
+    audioRecorder.addAudioData(customEvent.detail);
+  }));
+
+  audioRecorder.addEventListener('recorder-state-changed', ((e: Event) => {
+    const customEvent = e as CustomEvent<RecorderState>;
+    pdjMidi.recorderState = customEvent.detail;
+  }));
+
+  audioRecorder.addEventListener('recorder-progress', ((e: Event) => {
+    const customEvent = e as CustomEvent<number>;
+    pdjMidi.recordedSeconds = customEvent.detail;
+  }));
+
   liveMusicHelper.addEventListener('playback-state-changed', ((e: Event) => {
     const customEvent = e as CustomEvent<PlaybackState>;
     const playbackState = customEvent.detail;
     pdjMidi.playbackState = playbackState;
     if (playbackState === 'playing') {
+      notificationCenter.dismissCode('reconnecting');
       audioAnalyser.start();
     } else if (playbackState === 'stopped' || playbackState === 'paused') {
       audioAnalyser.stop();
@@ -55,21 +262,84 @@ function main() {
     }
   }));
 
-  liveMusicHelper.addEventListener('filtered-prompt', ((e: Event) => {
+  liveMusicHelper.addEventListener('buffer-health', ((e: Event) => {
+    const customEvent = e as CustomEvent<BufferHealth>;
+    pdjMidi.bufferHealth = customEvent.detail;
+  }));
+
+  liveMusicHelper.addEventListener('reconnecting', ((e: Event) => {
+    const customEvent = e as CustomEvent<ReconnectAttempt>;
+    const { attempt, maxAttempts } = customEvent.detail;
+    notificationCenter.notify(new AppError(
+      'reconnecting',
+      'session',
+      `Connection lost, reconnecting (attempt ${attempt} of ${maxAttempts})…`,
+      { severity: 'info' },
+    ));
+  }));
+
+  // The cue session's notices are tagged, and their actions act on it.
+  const notifyFiltered = (cue: boolean) => ((e: Event) => {
     const customEvent = e as CustomEvent<LiveMusicFilteredPrompt>;
-    const filteredPrompt = customEvent.detail;
-    toastMessage.show(filteredPrompt.filteredReason!)
-    pdjMidi.addFilteredPrompt(filteredPrompt.text!);
+    const { text, filteredReason } = customEvent.detail;
+    notificationCenter.notify(new AppError(
+      'prompt-filtered',
+      cue ? 'cue' : 'session',
+      `${cue ? 'Cue: ' : ''}"${text}" was filtered: ${filteredReason ?? 'no reason given'}`,
+      { severity: 'warning', actions: [{ label: 'Retry', action: 'retry-prompt', detail: text, cue }], subject: text },
+    ));
+  });
+
+  liveMusicHelper.addEventListener('filtered-prompt', notifyFiltered(false));
+  cueHelper.addEventListener('filtered-prompt', notifyFiltered(true));
+
+  const showFilteredPrompts = () => {
+    pdjMidi.filteredPrompts = [
+      ...liveMusicHelper.filteredPrompts.all,
+      ...cueHelper.filteredPrompts.all.map((p) => ({ ...p, cue: true })),
+    ].sort((a, b) => b.time - a.time);
+  };
+
+  liveMusicHelper.filteredPrompts.addEventListener('filtered-prompts-changed', showFilteredPrompts);
+  cueHelper.filteredPrompts.addEventListener('filtered-prompts-changed', showFilteredPrompts);
+
+  (pdjMidi as unknown as HTMLElement).addEventListener('filtered-prompt-retry', ((e: Event) => {
+    const customEvent = e as CustomEvent<FilteredPrompt>;
+    const { text, cue } = customEvent.detail;
+    (cue ? cueHelper : liveMusicHelper).retryFilteredPrompt(text);
   }));
 
-  const errorToast = ((e: Event) => {
-    const customEvent = e as CustomEvent<string>;
+  const notifyCueError = ((e: Event) => {
+    const customEvent = e as CustomEvent<AppError>;
     const error = customEvent.detail;
-    toastMessage.show(error);
+    notificationCenter.notify(new AppError(error.code, 'cue', `Cue: ${error.message}`, {
+      severity: error.severity,
+      actions: error.actions.map((action) => ({ ...action, cue: true })),
+      subject: error.subject ?? undefined,
+      cause: error.cause,
+    }));
   });
 
-  liveMusicHelper.addEventListener('error', errorToast);
-  (pdjMidi as unknown as HTMLElement).addEventListener('error', errorToast);
+  liveMusicHelper.addEventListener('error', notifyError);
+  cueHelper.addEventListener('error', notifyCueError);
+
+  (notificationCenter as unknown as HTMLElement).addEventListener('notification-action', ((e: Event) => {
+    const customEvent = e as CustomEvent<ErrorAction>;
+    const { action, detail, cue } = customEvent.detail;
+    switch (action) {
+      case 'reconnect':
+        // A cue that has since ended has nothing to reconnect.
+        if (!cue) liveMusicHelper.play();
+        else if (pdjMidi.isCueing) cueHelper.play();
+        break;
+      case 'grant-midi':
+        pdjMidi.setShowMidi(true);
+        break;
+      case 'retry-prompt':
+        (cue ? cueHelper : liveMusicHelper).retryFilteredPrompt(detail!);
+        break;
+    }
+  }));
 
   audioAnalyser.addEventListener('audio-data-changed', ((e: Event) => {
     const customEvent = e as CustomEvent<{level: number, frequencies: Uint8Array}>;
@@ -89,12 +359,9 @@ function buildInitialPrompts() {
     const prompt = DEFAULT_PROMPTS[i];
     const { text, color } = prompt;
     prompts.set(promptId, {
-      promptId,
-      text,
+      ...blankPrompt(promptId, text, color, i),
       // Start with the specific genre prompts "On" (weight 1)
       weight: i < coreGenrePromptCount ? 1 : 0,
-      cc: i,
-      color,
     });
   }
 
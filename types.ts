@@ -7,13 +7,375 @@ export interface Prompt {
   text: string;
   weight: number;
   cc: number;
+  channel: number;
+  /** MIDI note of a pad that toggles this prompt, if one has been learned. */
+  note: number | null;
+  /** Channel the pad was learned on; null for any channel, as in pads saved before channels were. */
+  noteChannel: number | null;
+  /** Name of the MIDI input the CC was learned on; null for any input. */
+  device: string | null;
+  /** Name of the MIDI input the pad was learned on; null for any input. */
+  noteDevice: string | null;
+  /** How the learned CC moves the weight. */
+  response: ControlResponse;
   color: string;
+  /** Silenced without losing the weight. */
+  muted: boolean;
+  /** While any prompt is soloed, only soloed prompts are heard. */
+  solo: boolean;
+  muteButton: ButtonMapping | null;
+  soloButton: ButtonMapping | null;
+  /**
+   * Whether the pad, mute and solo buttons toggle on each press. Otherwise
+   * they are momentary and toggle back on release.
+   */
+  latch: boolean;
+  /** Movement applied on top of the weight without changing it. */
+  automation: Automation;
+}
+
+export type LfoShape = 'sine' | 'triangle' | 'square' | 'random';
+
+/** A tempo-synced oscillator that swings the weight around its set value. */
+export interface Lfo {
+  shape: LfoShape;
+  /** Length of one cycle in beats. */
+  beats: number;
+  /** Largest amount added to or taken from the weight, 0-2. */
+  depth: number;
+}
+
+/** An attack-decay-sustain-release curve added to the weight while a note is held. */
+export interface Envelope {
+  /** Note that triggers the envelope on any input, if one has been learned. */
+  note: number | null;
+  /** Seconds. */
+  attack: number;
+  /** Seconds. */
+  decay: number;
+  /** Level held after the decay, 0-1. */
+  sustain: number;
+  /** Seconds. */
+  release: number;
+  /** Weight added at the envelope's peak, -2 to 2. */
+  depth: number;
 }
 
-export interface ControlChange {
+/** Weights recorded from a control, replayed in a loop in place of the set weight. */
+export interface AutomationLoop {
+  beats: number;
+  /** Each weight from its beat within the loop until the next point. */
+  points: { beat: number; weight: number }[];
+}
+
+export interface Automation {
+  lfo: Lfo | null;
+  envelope: Envelope | null;
+  loop: AutomationLoop | null;
+}
+
+/** A MIDI button learned onto a toggle: a note, or a CC sent as 127 on press and 0 on release. */
+export interface ButtonMapping {
+  type: 'note' | 'cc';
+  /** Note or controller number. */
+  number: number;
   channel: number;
+  /** Input the button was learned on; null for any input. */
+  device: string | null;
+}
+
+/** Shape applied to a control's position before it is scaled to a weight. */
+export type ResponseCurve = 'linear' | 'log' | 'exp';
+
+/**
+ * How a CC value is read. Absolute controls send their position; endless
+ * encoders send relative steps in one of three common encodings.
+ */
+export type EncoderMode = 'absolute' | 'relative-twos' | 'relative-offset' | 'relative-signed';
+
+/** Maps a control's position onto a weight range. */
+export interface ControlResponse {
+  curve: ResponseCurve;
+  /** Weight at the bottom of the control's travel, 0-2. */
+  min: number;
+  /** Weight at the top of the control's travel, 0-2; may be below min to invert. */
+  max: number;
+  mode: EncoderMode;
+  /** Ignore an absolute control until it reaches the current weight. */
+  softTakeover: boolean;
+}
+
+/** Fields shared by every channel message. */
+export interface MidiMessage {
+  /** Name of the input the message came from. */
+  device: string;
+  channel: number;
+}
+
+export interface ControlChange extends MidiMessage {
   cc: number;
   value: number;
+  /** Set on the MSB of a 14-bit pair, whose full value follows in a 'cc14-message'. */
+  highRes?: boolean;
 }
 
-export type PlaybackState = 'stopped' | 'playing' | 'loading' | 'paused';
+export interface NoteMessage extends MidiMessage {
+  note: number;
+  velocity: number;
+}
+
+export interface ProgramChange extends MidiMessage {
+  program: number;
+}
+
+/** A 14-bit control change sent as an MSB (CC 0-31) and LSB (CC 32-63) pair. */
+export interface HighResControlChange extends MidiMessage {
+  /** The MSB controller number. */
+  cc: number;
+  /** 0-16383. */
+  value: number;
+}
+
+/** A non-registered parameter number and its 14-bit data entry value. */
+export interface NrpnMessage extends MidiMessage {
+  parameter: number;
+  value: number;
+}
+
+export interface PitchBend extends MidiMessage {
+  /** 0-16383, centred at 8192. */
+  value: number;
+}
+
+/** Polyphonic aftertouch carries a note; channel pressure has none. */
+export interface Aftertouch extends MidiMessage {
+  note: number | null;
+  pressure: number;
+}
+
+/** A MIDI clock pulse; 24 are sent per quarter note. */
+export interface ClockTick {
+  device: string;
+  /** When the pulse arrived, in performance.now() milliseconds. */
+  time: number;
+}
+
+export type TransportCommand = 'start' | 'continue' | 'stop';
+
+/** A MIDI start, continue or stop message from a sequencer. */
+export interface TransportMessage {
+  device: string;
+  command: TransportCommand;
+}
+
+/** A LiveMusicGenerationConfig field that can be driven from the UI or MIDI. */
+export type GenerationParam =
+  | 'bpm'
+  | 'density'
+  | 'brightness'
+  | 'guidance'
+  | 'temperature'
+  | 'topK'
+  | 'muteBass'
+  | 'muteDrums';
+
+/** A generation parameter learned onto a MIDI control change. */
+export interface ConfigMapping {
+  param: GenerationParam;
+  /** Input the mapping was learned on; null for any input. */
+  device: string | null;
+  cc: number;
+  channel: number;
+}
+
+/** A control of the master chain between the music and the outputs. */
+export type MasterParam =
+  | 'volume'
+  | 'low'
+  | 'mid'
+  | 'high'
+  | 'lowKill'
+  | 'midKill'
+  | 'highKill'
+  | 'filter'
+  | 'resonance'
+  | 'limiter';
+
+export interface MasterSettings {
+  /** Fader position, 0-1; the gain is its square. */
+  volume: number;
+  /** EQ band gains in dB. */
+  low: number;
+  mid: number;
+  high: number;
+  lowKill: boolean;
+  midKill: boolean;
+  highKill: boolean;
+  /** -1 to 0 sweeps a low-pass down, 0 to 1 a high-pass up; 0 is open. */
+  filter: number;
+  /** Q of the filter. */
+  resonance: number;
+  limiter: boolean;
+}
+
+/** A master control learned onto a MIDI control change. */
+export interface MasterMapping {
+  param: MasterParam;
+  /** Input the mapping was learned on; null for any input. */
+  device: string | null;
+  cc: number;
+  channel: number;
+}
+
+export type ReverbImpulse = 'room' | 'plate' | 'hall';
+
+/** Settings of the performance effects; lengths are in beats at the generation BPM. */
+export interface FxSettings {
+  delay: boolean;
+  delayBeats: number;
+  /** How much of each echo feeds the next, 0-0.9. */
+  delayFeedback: number;
+  /** Level of the echoes over the dry sound, 0-1. */
+  delayMix: number;
+  reverb: boolean;
+  reverbImpulse: ReverbImpulse;
+  reverbMix: number;
+  /** Length of the loop beat repeat captures. */
+  repeatBeats: number;
+  /** How long tape stop takes to wind down. */
+  tapeStopBeats: number;
+}
+
+/** Effects that take over the sound only while held. */
+export type PerformanceFx = 'beatRepeat' | 'tapeStop';
+
+/** Detail of a performance effect being pressed or let go. */
+export interface PerformanceFxChange {
+  fx: PerformanceFx;
+  on: boolean;
+}
+
+export type FxParam = keyof FxSettings | PerformanceFx;
+
+/** An effect control learned onto a MIDI control change. */
+export interface FxMapping {
+  param: FxParam;
+  /** Input the mapping was learned on; null for any input. */
+  device: string | null;
+  cc: number;
+  channel: number;
+}
+
+/** An audio output device the music can be played to. */
+export interface AudioOutput {
+  id: string;
+  name: string;
+}
+
+export type PlaybackState = 'stopped' | 'playing' | 'loading' | 'paused' | 'reconnecting';
+
+export type RecorderState = 'idle' | 'armed' | 'recording';
+
+/** The active prompts at a point in a recording, in seconds from its start. */
+export interface PromptTimelineEntry {
+  time: number;
+  prompts: { text: string; weight: number }[];
+}
+
+/** A prompt text the server refused, and why. */
+export interface FilteredPrompt {
+  text: string;
+  reason: string;
+  /** Date.now() when it was refused. */
+  time: number;
+  /** Set when the cue session refused it rather than the main one. */
+  cue?: boolean;
+}
+
+export type GestureState = 'idle' | 'recording' | 'playing' | 'overdubbing';
+
+/** A prompt's text and weight at a point in a gesture take, in ms from its start. */
+export interface Gesture {
+  time: number;
+  promptId: string;
+  text: string;
+  weight: number;
+}
+
+/** Every change made to the grid over a stretch of a performance. */
+export interface GestureTake {
+  /** Length in ms. */
+  duration: number;
+  /** The grid when recording started, all at time 0. */
+  initial: Gesture[];
+  gestures: Gesture[];
+}
+
+/** A named snapshot of every prompt in the grid. */
+export interface Scene {
+  name: string;
+  prompts: Prompt[];
+  /** MIDI note that recalls this scene, if one has been learned. */
+  note: number | null;
+}
+
+/** Range of the values a device expects back for weights 0-2. */
+export interface FeedbackScaling {
+  min: number;
+  max: number;
+}
+
+/**
+ * Something a key can do. Numbered actions address grid positions and scenes
+ * from 0.
+ */
+export type KeyAction =
+  | 'play-pause'
+  | 'select-next'
+  | 'select-previous'
+  | 'nudge-up'
+  | 'nudge-down'
+  | 'nudge-up-coarse'
+  | 'nudge-down-coarse'
+  | 'mute'
+  | 'solo'
+  | 'show-keymap'
+  | `select-${number}`
+  | `scene-${number}`;
+
+/**
+ * Key bound to each action, written as modifiers and a KeyboardEvent.code,
+ * e.g. `Shift+Digit1`. Codes name physical keys, so the layout of the grid
+ * keys holds on any keyboard layout.
+ */
+export type Keymap = Partial<Record<KeyAction, string>>;
+
+/** UI settings of the grid that survive a reload. */
+export interface UiState {
+  showMidi: boolean;
+  showConfig: boolean;
+  showMaster: boolean;
+  showFx: boolean;
+  /** Inputs listened to; messages from all of them are handled. */
+  midiInputIds: string[];
+  crossfadeBeats: number;
+  /** Whether weights are echoed to the MIDI output. */
+  midiFeedback: boolean;
+  midiOutputId: string | null;
+  /** Feedback range per output device name. */
+  feedbackScaling: Record<string, FeedbackScaling>;
+  /** Follow incoming MIDI clock tempo and transport. */
+  clockIn: boolean;
+  /** Send MIDI clock at the generation BPM. */
+  clockOut: boolean;
+  keymap: Keymap;
+  /** Prompts per row; the rows follow from the number of prompts. */
+  gridColumns: number;
+  showOutput: boolean;
+  /** Device the main mix plays to; null for the default output. */
+  outputId: string | null;
+  /** Device the cue session plays to, e.g. headphones; null for the default output. */
+  cueOutputId: string | null;
+  /** Fader of the cue session, 0-1. */
+  cueVolume: number;
+}
@@ -0,0 +1,48 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { AudioOutput } from '../types';
+import { AppError, errorMessage } from './errors';
+
+/** AudioContext.setSinkId, which TypeScript's DOM types don't include yet. */
+export type SinkableAudioContext = AudioContext & { setSinkId(sinkId: string): Promise<void> };
+
+/** Whether the browser can send an AudioContext to an output other than the default. */
+export function canChooseOutput(context: AudioContext): context is SinkableAudioContext {
+  return 'setSinkId' in context;
+}
+
+/**
+ * Lists the audio outputs and dispatches 'outputs-changed' with the new
+ * list whenever one is plugged in or out. Browsers hide device names until
+ * the page has been granted microphone access, so unnamed outputs are
+ * numbered instead. A failure to list them is dispatched as an 'error'.
+ */
+export class AudioOutputs extends EventTarget {
+  outputs: AudioOutput[] = [];
+
+  private readonly refresh = async () => {
+    let devices: MediaDeviceInfo[];
+    try {
+      devices = await navigator.mediaDevices.enumerateDevices();
+    } catch (e) {
+      this.dispatchEvent(new CustomEvent<AppError>('error', {
+        detail: new AppError('output-failed', 'output', `Unable to list audio outputs: ${errorMessage(e)}`, {
+          cause: e,
+        }),
+      }));
+      return;
+    }
+    this.outputs = devices
+      .filter((d) => d.kind === 'audiooutput' && d.deviceId !== 'default' && d.deviceId !== '')
+      .map((d, i) => ({ id: d.deviceId, name: d.label || `Output ${i + 1}` }));
+    this.dispatchEvent(new CustomEvent<AudioOutput[]>('outputs-changed', { detail: this.outputs }));
+  };
+
+  start() {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+    navigator.mediaDevices.addEventListener('devicechange', this.refresh);
+    this.refresh();
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Prompt, PromptTimelineEntry, RecorderState } from '../types';
+import { encodeFlac } from './flac';
+import { audiblePrompts } from './promptMix';
+import { encodeWav } from './wav';
+
+export type RecordingFormat = 'wav' | 'flac';
+
+/**
+ * Captures the decoded PCM that LiveMusicHelper schedules for playback, along
+ * with a timeline of the prompts that were active while it was generated.
+ */
+export class AudioRecorder extends EventTarget {
+  private state: RecorderState = 'idle';
+  private chunks: Float32Array[][] = [];
+  private frameCount = 0;
+  private timeline: PromptTimelineEntry[] = [];
+  private currentPrompts: PromptTimelineEntry['prompts'] = [];
+  private startedAt: Date | null = null;
+
+  constructor(
+    readonly sampleRate = 48000,
+    readonly numChannels = 2,
+  ) {
+    super();
+  }
+
+  get recorderState() {
+    return this.state;
+  }
+
+  /** Length of the captured audio in seconds. */
+  get duration() {
+    return this.frameCount / this.sampleRate;
+  }
+
+  private setState(state: RecorderState) {
+    this.state = state;
+    this.dispatchEvent(new CustomEvent<RecorderState>('recorder-state-changed', { detail: state }));
+  }
+
+  /** Starts recording with the next audio chunk that arrives. */
+  arm() {
+    if (this.state !== 'idle') return;
+    this.setState('armed');
+  }
+
+  start() {
+    if (this.state === 'recording') return;
+    this.chunks = [];
+    this.frameCount = 0;
+    this.startedAt = new Date();
+    this.timeline = [{ time: 0, prompts: this.currentPrompts }];
+    this.setState('recording');
+    this.dispatchProgress();
+  }
+
+  stop() {
+    if (this.state === 'idle') return;
+    this.setState('idle');
+  }
+
+  /** Remembers the active prompts, adding a timeline entry while recording. */
+  setPrompts(prompts: Map<string, Prompt>) {
+    this.currentPrompts = audiblePrompts(prompts.values())
+      .filter((p) => p.weight !== 0)
+      .map((p) => ({ text: p.text, weight: p.weight }));
+    if (this.state !== 'recording') return;
+
+    const time = this.duration;
+    const last = this.timeline[this.timeline.length - 1];
+    if (last && last.time === time) {
+      last.prompts = this.currentPrompts;
+    } else {
+      this.timeline.push({ time, prompts: this.currentPrompts });
+    }
+  }
+
+  /** Appends a decoded chunk, one Float32Array per channel. */
+  addAudioData(data: Float32Array[]) {
+    if (this.state === 'armed') this.start();
+    if (this.state !== 'recording') return;
+
+    const channels: Float32Array[] = [];
+    for (let c = 0; c < this.numChannels; c++) {
+      channels.push(new Float32Array(data[Math.min(c, data.length - 1)]));
+    }
+    this.chunks.push(channels);
+    this.frameCount += data[0].length;
+    this.dispatchProgress();
+  }
+
+  private dispatchProgress() {
+    this.dispatchEvent(new CustomEvent<number>('recorder-progress', { detail: this.duration }));
+  }
+
+  private flatten(): Float32Array[] {
+    const channels: Float32Array[] = [];
+    for (let c = 0; c < this.numChannels; c++) {
+      const channel = new Float32Array(this.frameCount);
+      let offset = 0;
+      for (const chunk of this.chunks) {
+        channel.set(chunk[c], offset);
+        offset += chunk[c].length;
+      }
+      channels.push(channel);
+    }
+    return channels;
+  }
+
+  /** Encodes the captured audio, embedding the prompt timeline as metadata. */
+  export(format: RecordingFormat): Blob {
+    const channels = this.flatten();
+    const timeline = JSON.stringify(this.timeline);
+    const date = (this.startedAt ?? new Date()).toISOString();
+    if (format === 'flac') {
+      return encodeFlac(channels, this.sampleRate, {
+        DATE: date,
+        ENCODER: 'Prompt DJ MIDI',
+        PROMPT_TIMELINE: timeline,
+      });
+    }
+    return encodeWav(channels, this.sampleRate, {
+      ICRD: date,
+      ISFT: 'Prompt DJ MIDI',
+      ICMT: timeline,
+    });
+  }
+
+  /** A file name for the recording based on when it started. */
+  fileName(format: RecordingFormat) {
+    const date = (this.startedAt ?? new Date()).toISOString().replace(/[:.]/g, '-');
+    return `prompt-dj-${date}.${format}`;
+  }
+}
@@ -0,0 +1,243 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Automation, AutomationLoop, Envelope, Lfo, LfoShape, Prompt } from '../types';
+
+/**
+ * Interval between automation steps. Kept above the 200 ms throttle in
+ * LiveMusicHelper.setWeightedPrompts so each step is sent as it happens.
+ */
+export const AUTOMATION_STEP_MS = 250;
+
+export const LFO_SHAPES: LfoShape[] = ['sine', 'triangle', 'square', 'random'];
+
+/**
+ * Shortest LFO cycle, in beats. Weights are only sampled every
+ * AUTOMATION_STEP_MS, so a cycle has to span more than two steps or it
+ * aliases into a slower wobble; at the 200 BPM maximum two beats is 600 ms.
+ * Shorter cycles in older sessions and profiles play at this rate.
+ */
+export const MIN_LFO_BEATS = 2;
+
+/** Cycle and loop lengths offered in the automation editor, in beats. */
+export const LFO_BEATS = [2, 4, 8, 16, 32];
+export const LOOP_BEATS = [1, 2, 4, 8, 16, 32];
+
+export const DEFAULT_AUTOMATION: Automation = { lfo: null, envelope: null, loop: null };
+export const DEFAULT_LFO: Lfo = { shape: 'sine', beats: 4, depth: 0.5 };
+export const DEFAULT_ENVELOPE: Envelope = {
+  note: null,
+  attack: 0.5,
+  decay: 1,
+  sustain: 0.5,
+  release: 2,
+  depth: 1,
+};
+
+/** A note that is held or releasing, shared by every envelope it triggers. */
+interface NoteGate {
+  /** performance.now() when the note was pressed. */
+  start: number;
+  /** performance.now() when the note was released, or null while held. */
+  end: number | null;
+}
+
+interface Recording {
+  beats: number;
+  startBeat: number;
+  points: AutomationLoop['points'];
+}
+
+export function hasAutomation({ lfo, envelope, loop }: Automation) {
+  return lfo !== null || envelope !== null || loop !== null;
+}
+
+/** The LFO's output at a point in its cycle, -1 to 1. */
+export function lfoValue(shape: LfoShape, phase: number, cycle: number, seed: number) {
+  switch (shape) {
+    case 'sine':
+      return Math.sin(phase * 2 * Math.PI);
+    case 'triangle':
+      return 1 - 4 * Math.abs(phase - 0.5);
+    case 'square':
+      return phase < 0.5 ? 1 : -1;
+    case 'random':
+      // Held for the whole cycle, and the same on every step that lands in it.
+      return random(cycle * 7919 + seed) * 2 - 1;
+  }
+}
+
+/** The envelope's level, 0-1, `elapsed` seconds after its note was pressed. */
+export function envelopeLevel(envelope: Envelope, elapsed: number, released: number | null) {
+  const { attack, decay, sustain, release } = envelope;
+  const held = (t: number) => {
+    if (t < attack) return t / attack;
+    if (t < attack + decay) return 1 - ((1 - sustain) * (t - attack)) / decay;
+    return sustain;
+  };
+  if (released === null) return held(elapsed);
+  const level = held(elapsed - released);
+  return release > 0 ? Math.max(0, level * (1 - released / release)) : 0;
+}
+
+/** The loop's weight at a beat, holding each point until the next. */
+export function loopWeight(loop: AutomationLoop, beat: number) {
+  const phase = beat % loop.beats;
+  let weight = loop.points[loop.points.length - 1]?.weight ?? 0;
+  for (const point of loop.points) {
+    if (point.beat > phase) break;
+    weight = point.weight;
+  }
+  return weight;
+}
+
+/** A repeatable pseudo-random number in [0, 1). */
+function random(n: number) {
+  const x = Math.sin(n * 12.9898) * 43758.5453;
+  return x - Math.floor(x);
+}
+
+function hashId(id: string) {
+  let hash = 0;
+  for (let i = 0; i < id.length; i++) hash = (hash * 31 + id.charCodeAt(i)) | 0;
+  return hash;
+}
+
+/**
+ * Moves prompt weights without hands: LFOs, note-triggered envelopes and
+ * recorded loops. `apply` works out the weights to send for the current
+ * moment, and a 'tick' event asks for them to be sent again while anything
+ * is moving.
+ */
+export class AutomationEngine extends EventTarget {
+  private tempo = 120;
+  /** The beat and time of the last tempo change, which beats are counted on from. */
+  private anchorBeat = 0;
+  private anchorTime = performance.now();
+  private timer: number | null = null;
+  private gates = new Map<number, NoteGate>();
+  private recordings = new Map<string, Recording>();
+
+  /** Tempo that LFO cycles and loops are measured in. */
+  get bpm() {
+    return this.tempo;
+  }
+
+  /** Changes tempo from the current beat on, so LFOs and loops carry on from where they are. */
+  set bpm(bpm: number) {
+    if (bpm === this.tempo) return;
+    const now = performance.now();
+    this.anchorBeat = this.beat(now);
+    this.anchorTime = now;
+    this.tempo = bpm;
+  }
+
+  /** Ticks while `active`, plus once more on stopping so the plain weights are sent again. */
+  setActive(active: boolean) {
+    active ||= this.recordings.size > 0 || this.gates.size > 0;
+    if (active && this.timer === null) {
+      this.timer = window.setInterval(() => this.dispatchEvent(new Event('tick')), AUTOMATION_STEP_MS);
+    } else if (!active && this.timer !== null) {
+      window.clearInterval(this.timer);
+      this.timer = null;
+      this.dispatchEvent(new Event('tick'));
+    }
+  }
+
+  noteOn(note: number) {
+    this.gates.set(note, { start: performance.now(), end: null });
+  }
+
+  noteOff(note: number) {
+    const gate = this.gates.get(note);
+    if (gate && gate.end === null) gate.end = performance.now();
+  }
+
+  /** Records the prompt's weight for `beats`, then emits 'loop-recorded'. */
+  record(promptId: string, beats: number) {
+    this.recordings.set(promptId, { beats, startBeat: this.beat(performance.now()), points: [] });
+  }
+
+  isRecording(promptId: string) {
+    return this.recordings.has(promptId);
+  }
+
+  private beat(now: number) {
+    return this.anchorBeat + ((now - this.anchorTime) / 60_000) * this.tempo;
+  }
+
+  /**
+   * Returns the prompts with automation applied to their weights, and
+   * samples the prompts being recorded.
+   */
+  apply(prompts: Map<string, Prompt>, now = performance.now()): Map<string, Prompt> {
+    this.sample(prompts, this.beat(now));
+    this.releaseFinishedGates(prompts, now);
+    return this.modulate(prompts, now);
+  }
+
+  /**
+   * Returns the prompts with automation applied to their weights, without
+   * recording; for prompts other than the grid's, such as the live ones
+   * while the grid is cued.
+   */
+  modulate(prompts: Map<string, Prompt>, now = performance.now()): Map<string, Prompt> {
+    const beat = this.beat(now);
+    const applied = new Map<string, Prompt>();
+    for (const [promptId, prompt] of prompts) {
+      const { lfo, envelope, loop } = prompt.automation;
+      let weight = loop && !this.recordings.has(promptId) ? loopWeight(loop, beat) : prompt.weight;
+      if (lfo) {
+        const position = beat / Math.max(MIN_LFO_BEATS, lfo.beats);
+        const cycle = Math.floor(position);
+        weight += lfo.depth * lfoValue(lfo.shape, position - cycle, cycle, hashId(promptId));
+      }
+      const gate = envelope?.note == null ? undefined : this.gates.get(envelope.note);
+      if (envelope && gate) {
+        const released = gate.end === null ? null : (now - gate.end) / 1000;
+        weight += envelope.depth * envelopeLevel(envelope, (now - gate.start) / 1000, released);
+      }
+      weight = Math.min(2, Math.max(0, weight));
+      applied.set(promptId, weight === prompt.weight ? prompt : { ...prompt, weight });
+    }
+    return applied;
+  }
+
+  private sample(prompts: Map<string, Prompt>, beat: number) {
+    for (const [promptId, recording] of this.recordings) {
+      const prompt = prompts.get(promptId);
+      if (!prompt) {
+        this.recordings.delete(promptId);
+        continue;
+      }
+      const elapsed = beat - recording.startBeat;
+      if (elapsed >= recording.beats) {
+        this.recordings.delete(promptId);
+        // Rotated onto the beat grid, so the loop replays in time with when it was played.
+        const points = recording.points
+          .map((p) => ({ beat: p.beat % recording.beats, weight: p.weight }))
+          .sort((a, b) => a.beat - b.beat);
+        this.dispatchEvent(new CustomEvent<{ promptId: string; loop: AutomationLoop }>('loop-recorded', {
+          detail: { promptId, loop: { beats: recording.beats, points } },
+        }));
+        continue;
+      }
+      const last = recording.points[recording.points.length - 1];
+      if (!last || last.weight !== prompt.weight) {
+        recording.points.push({ beat: recording.startBeat + elapsed, weight: prompt.weight });
+      }
+    }
+  }
+
+  /** Forgets notes whose envelopes have all finished releasing. */
+  private releaseFinishedGates(prompts: Map<string, Prompt>, now: number) {
+    for (const [note, gate] of this.gates) {
+      if (gate.end === null) continue;
+      const releasing = [...prompts.values()].some(({ automation: { envelope } }) => {
+        return envelope?.note === note && (now - gate.end!) / 1000 < envelope.release;
+      });
+      if (!releasing) this.gates.delete(note);
+    }
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ControlChange } from '../types';
+import { matchesDevice, type MidiDispatcher } from './MidiDispatcher';
+
+/** A control learned onto a MIDI control change, e.g. a ConfigMapping. */
+export interface ControlMapping<P extends string> {
+  param: P;
+  /** Input the mapping was learned on; null for any input. */
+  device: string | null;
+  cc: number;
+  channel: number;
+}
+
+/** Detail of a 'control' event: a mapped CC's value, 0-127. */
+export interface ControlValue<P extends string> {
+  param: P;
+  value: number;
+}
+
+/**
+ * Maps learned CCs onto a set of named controls, such as the generation
+ * config's or the master chain's. It listens for as long as it exists, so
+ * mapped controls work whether or not their panel is open; panels only
+ * start and show learning.
+ *
+ * Events: 'control' (ControlValue) when a mapped CC moves, 'mappings-learned'
+ * with the mappings after a learn, and 'changed' whenever the mappings or
+ * the param being learned change.
+ */
+export class ControlMapper<P extends string> extends EventTarget {
+  private mappingList: ControlMapping<P>[] = [];
+  private learningParam: P | null = null;
+
+  constructor(midiDispatcher: MidiDispatcher) {
+    super();
+    midiDispatcher.addEventListener('cc-message', (e: Event) => {
+      this.handleControlChange((e as CustomEvent<ControlChange>).detail);
+    });
+  }
+
+  get mappings(): ControlMapping<P>[] {
+    return this.mappingList;
+  }
+
+  /** Replaces the mappings, e.g. with a stored session's, without a 'mappings-learned'. */
+  set mappings(mappings: ControlMapping<P>[]) {
+    this.mappingList = mappings;
+    this.dispatchEvent(new Event('changed'));
+  }
+
+  /** The param the next CC will be mapped onto, if any. */
+  get learning() {
+    return this.learningParam;
+  }
+
+  mappingFor(param: P) {
+    return this.mappingList.find((m) => m.param === param) ?? null;
+  }
+
+  /** Starts learning a param, or stops if it is already being learned. */
+  toggleLearn(param: P) {
+    this.setLearning(this.learningParam === param ? null : param);
+  }
+
+  cancelLearn() {
+    this.setLearning(null);
+  }
+
+  private setLearning(param: P | null) {
+    if (param === this.learningParam) return;
+    this.learningParam = param;
+    this.dispatchEvent(new Event('changed'));
+  }
+
+  /** A learned CC replaces the param's mapping and any other use of that CC. */
+  private handleControlChange({ device, channel, cc, value }: ControlChange) {
+    const param = this.learningParam;
+    if (param !== null) {
+      this.learningParam = null;
+      this.mappings = [
+        ...this.mappingList.filter((m) => {
+          return m.param !== param && !(m.device === device && m.cc === cc && m.channel === channel);
+        }),
+        { param, device, cc, channel },
+      ];
+      this.dispatchEvent(new CustomEvent<ControlMapping<P>[]>('mappings-learned', { detail: this.mappingList }));
+      return;
+    }
+    const mapping = this.mappingList.find((m) => matchesDevice(m.device, device) && m.cc === cc && m.channel === channel);
+    if (!mapping) return;
+    this.dispatchEvent(new CustomEvent<ControlValue<P>>('control', { detail: { param: mapping.param, value } }));
+  }
+}
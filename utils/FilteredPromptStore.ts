@@ -0,0 +1,45 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { FilteredPrompt } from '../types';
+
+/**
+ * The prompt texts the server has filtered. LiveMusicHelper leaves them out
+ * of what it sends and the grid strikes them through, both reading from
+ * here. A text stays filtered until it is retried or no prompt uses it.
+ */
+export class FilteredPromptStore extends EventTarget {
+  private entries = new Map<string, FilteredPrompt>();
+
+  /** Newest first. */
+  get all(): FilteredPrompt[] {
+    return [...this.entries.values()].sort((a, b) => b.time - a.time);
+  }
+
+  has(text: string) {
+    return this.entries.has(text);
+  }
+
+  add(text: string, reason: string) {
+    this.entries.set(text, { text, reason, time: Date.now() });
+    this.dispatchChanged();
+  }
+
+  delete(text: string) {
+    if (this.entries.delete(text)) this.dispatchChanged();
+  }
+
+  /** Forgets the texts no prompt uses any more, e.g. after one is edited. */
+  retain(texts: Iterable<string>) {
+    const used = new Set(texts);
+    const unused = [...this.entries.keys()].filter((text) => !used.has(text));
+    if (unused.length === 0) return;
+    for (const text of unused) this.entries.delete(text);
+    this.dispatchChanged();
+  }
+
+  private dispatchChanged() {
+    this.dispatchEvent(new CustomEvent<FilteredPrompt[]>('filtered-prompts-changed', { detail: this.all }));
+  }
+}
@@ -0,0 +1,190 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { FxSettings, PerformanceFx, ReverbImpulse } from '../types';
+import { DEFAULT_BPM } from './generationConfig';
+import { DEFAULT_FX_SETTINGS } from './fxSettings';
+import { createImpulseResponse } from './impulseResponse';
+import { StreamHistory } from './StreamHistory';
+
+/** Decoded audio kept for beat repeat and tape stop: a bar at the slowest BPM plus the deepest buffer. */
+const HISTORY_SECONDS = 12;
+
+/** Longest delay, two beats at the slowest BPM. */
+const MAX_DELAY_SECONDS = 2;
+
+/** Time constant of level changes in seconds, short enough to feel instant without clicks. */
+const SMOOTHING = 0.005;
+
+/** Fade at each end of a captured loop, so it repeats without a click. */
+const LOOP_FADE_SECONDS = 0.003;
+
+/**
+ * Tempo-synced performance effects between the stream and the master chain:
+ * a ping-pong delay and a convolution reverb on sends, so their tails ring
+ * out after they are switched off, and beat repeat and tape stop, which
+ * replace the stream with decoded audio from `history` while held.
+ */
+export class FxRack {
+  readonly input: GainNode;
+  readonly output: GainNode;
+  /** Fed with the decoded stream and the player's buffered amount by the owner. */
+  readonly history: StreamHistory;
+
+  private readonly live: GainNode;
+  private readonly bus: GainNode;
+  private readonly delaySend: GainNode;
+  private readonly delayLeft: DelayNode;
+  private readonly delayRight: DelayNode;
+  private readonly feedbackLeft: GainNode;
+  private readonly feedbackRight: GainNode;
+  private readonly delayReturn: GainNode;
+  private readonly reverbSend: GainNode;
+  private readonly convolver: ConvolverNode;
+  private readonly reverbReturn: GainNode;
+  private readonly impulses = new Map<ReverbImpulse, AudioBuffer>();
+
+  private settings: FxSettings = DEFAULT_FX_SETTINGS;
+  private bpm = DEFAULT_BPM;
+  private takeover: { fx: PerformanceFx; source: AudioBufferSourceNode; gain: GainNode } | null = null;
+
+  constructor(private readonly context: BaseAudioContext) {
+    this.input = context.createGain();
+    this.output = context.createGain();
+    this.history = new StreamHistory(context.sampleRate, HISTORY_SECONDS);
+
+    this.live = context.createGain();
+    this.bus = context.createGain();
+    this.input.connect(this.live).connect(this.bus).connect(this.output);
+
+    // Echoes alternate between left and right: each side feeds the other.
+    this.delaySend = new GainNode(context, { gain: 0, channelCount: 1, channelCountMode: 'explicit' });
+    this.delayLeft = new DelayNode(context, { maxDelayTime: MAX_DELAY_SECONDS });
+    this.delayRight = new DelayNode(context, { maxDelayTime: MAX_DELAY_SECONDS });
+    this.feedbackLeft = context.createGain();
+    this.feedbackRight = context.createGain();
+    const merger = context.createChannelMerger(2);
+    this.delayReturn = context.createGain();
+    this.bus.connect(this.delaySend).connect(this.delayLeft);
+    this.delayLeft.connect(merger, 0, 0);
+    this.delayLeft.connect(this.feedbackLeft).connect(this.delayRight);
+    this.delayRight.connect(merger, 0, 1);
+    this.delayRight.connect(this.feedbackRight).connect(this.delayLeft);
+    merger.connect(this.delayReturn).connect(this.output);
+
+    this.reverbSend = new GainNode(context, { gain: 0 });
+    this.convolver = context.createConvolver();
+    this.reverbReturn = context.createGain();
+    this.bus.connect(this.reverbSend).connect(this.convolver).connect(this.reverbReturn).connect(this.output);
+
+    this.apply(DEFAULT_FX_SETTINGS);
+  }
+
+  apply(settings: FxSettings) {
+    const previous = this.settings;
+    this.settings = settings;
+    this.setParam(this.delaySend.gain, settings.delay ? 1 : 0);
+    this.setParam(this.delayReturn.gain, settings.delayMix);
+    this.setParam(this.feedbackLeft.gain, settings.delayFeedback);
+    this.setParam(this.feedbackRight.gain, settings.delayFeedback);
+    this.applyDelayTime();
+    this.setParam(this.reverbSend.gain, settings.reverb ? 1 : 0);
+    this.setParam(this.reverbReturn.gain, settings.reverbMix);
+    if (this.convolver.buffer === null || settings.reverbImpulse !== previous.reverbImpulse) {
+      this.convolver.buffer = this.impulse(settings.reverbImpulse);
+    }
+    // A new length while repeating re-captures, as a loop roll does.
+    if (this.takeover?.fx === 'beatRepeat' && settings.repeatBeats !== previous.repeatBeats) {
+      this.engage('beatRepeat', true);
+    }
+  }
+
+  setBpm(bpm: number) {
+    this.bpm = bpm;
+    this.applyDelayTime();
+  }
+
+  /** Starts or releases beat repeat or tape stop; engaging one releases the other. */
+  engage(fx: PerformanceFx, on: boolean) {
+    if (!on) {
+      if (this.takeover?.fx === fx) this.release();
+      return;
+    }
+    this.release();
+    const now = this.context.currentTime;
+    const source = fx === 'beatRepeat' ? this.startRepeat(now) : this.startTapeStop(now);
+    const gain = new GainNode(this.context, { gain: 0 });
+    source.connect(gain).connect(this.bus);
+    source.start(now);
+    gain.gain.setTargetAtTime(1, now, SMOOTHING);
+    this.live.gain.setTargetAtTime(0, now, SMOOTHING);
+    this.takeover = { fx, source, gain };
+  }
+
+  /** Loops the last `repeatBeats` heard. */
+  private startRepeat(now: number) {
+    const seconds = this.beatsToSeconds(this.settings.repeatBeats);
+    const buffer = this.toBuffer(this.history.read(-seconds, seconds, now));
+    return new AudioBufferSourceNode(this.context, { buffer, loop: true });
+  }
+
+  /** Plays on from the playhead while slowing to a halt over `tapeStopBeats`. */
+  private startTapeStop(now: number) {
+    const seconds = this.beatsToSeconds(this.settings.tapeStopBeats);
+    // A linear slowdown to zero plays half its length of audio.
+    const buffer = this.toBuffer(this.history.read(0, seconds / 2, now));
+    const source = new AudioBufferSourceNode(this.context, { buffer });
+    source.playbackRate.setValueAtTime(1, now);
+    source.playbackRate.linearRampToValueAtTime(0, now + seconds);
+    return source;
+  }
+
+  private release() {
+    if (!this.takeover) return;
+    const { source, gain } = this.takeover;
+    this.takeover = null;
+    const now = this.context.currentTime;
+    gain.gain.setTargetAtTime(0, now, SMOOTHING);
+    this.live.gain.setTargetAtTime(1, now, SMOOTHING);
+    source.stop(now + SMOOTHING * 10);
+    source.onended = () => gain.disconnect();
+  }
+
+  private toBuffer(channels: Float32Array[]) {
+    const length = channels[0].length;
+    const buffer = this.context.createBuffer(channels.length, length, this.context.sampleRate);
+    const fade = Math.min(Math.floor(length / 2), Math.round(LOOP_FADE_SECONDS * this.context.sampleRate));
+    channels.forEach((data, c) => {
+      for (let i = 0; i < fade; i++) {
+        data[i] *= i / fade;
+        data[length - 1 - i] *= i / fade;
+      }
+      buffer.copyToChannel(data, c);
+    });
+    return buffer;
+  }
+
+  private impulse(impulse: ReverbImpulse) {
+    let buffer = this.impulses.get(impulse);
+    if (!buffer) {
+      buffer = createImpulseResponse(this.context, impulse);
+      this.impulses.set(impulse, buffer);
+    }
+    return buffer;
+  }
+
+  private applyDelayTime() {
+    const seconds = Math.min(MAX_DELAY_SECONDS, this.beatsToSeconds(this.settings.delayBeats));
+    this.setParam(this.delayLeft.delayTime, seconds);
+    this.setParam(this.delayRight.delayTime, seconds);
+  }
+
+  private beatsToSeconds(beats: number) {
+    return (beats * 60) / this.bpm;
+  }
+
+  private setParam(param: AudioParam, value: number) {
+    param.setTargetAtTime(value, this.context.currentTime, SMOOTHING);
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Gesture, GestureState, GestureTake, Prompt } from '../types';
+
+/** Interval between playback steps. Finer than the session accepts weight changes. */
+const GESTURE_STEP_MS = 50;
+
+/**
+ * Records the changes made to the grid as a take of timed gestures, and
+ * replays a take so a set can be reproduced against any session. Overdubbing
+ * replays and records at once: a prompt touched during the pass is taken
+ * over from that moment, replacing the rest of its recorded gestures.
+ */
+export class GestureRecorder extends EventTarget {
+  private state: GestureState = 'idle';
+  private currentTake: GestureTake | null = null;
+  /** Gestures captured in the current pass. */
+  private recorded: Gesture[] = [];
+  private initial: Gesture[] = [];
+  /** Text and weight each prompt last had, to pick out what changed. */
+  private last = new Map<string, { text: string; weight: number }>();
+  /** When each prompt was first touched in the current overdub. */
+  private punchedIn = new Map<string, number>();
+  private startTime = 0;
+  private nextIndex = 0;
+  private timer: number | null = null;
+
+  get gestureState() {
+    return this.state;
+  }
+
+  /** The recorded take, including the one still being recorded. */
+  get take(): GestureTake | null {
+    if (this.state === 'recording') {
+      return { duration: this.position, initial: this.initial, gestures: [...this.recorded] };
+    }
+    return this.currentTake;
+  }
+
+  /** Time into the take in ms; 0 when stopped. */
+  get position() {
+    return this.state === 'idle' ? 0 : Math.round(performance.now() - this.startTime);
+  }
+
+  private setState(state: GestureState) {
+    this.state = state;
+    this.dispatchEvent(new CustomEvent<GestureState>('gesture-state-changed', { detail: state }));
+  }
+
+  /** Starts a new take from the grid as it is now. */
+  record(prompts: Map<string, Prompt>) {
+    this.stop();
+    this.initial = [...prompts.values()].map(({ promptId, text, weight }) => ({ time: 0, promptId, text, weight }));
+    this.last = new Map(this.initial.map(({ promptId, text, weight }) => [promptId, { text, weight }]));
+    this.recorded = [];
+    this.begin('recording');
+  }
+
+  play() {
+    if (!this.currentTake) return;
+    this.stop();
+    this.emit(this.currentTake.initial);
+    this.begin('playing');
+  }
+
+  overdub() {
+    if (!this.currentTake) return;
+    this.stop();
+    this.recorded = [];
+    this.punchedIn.clear();
+    this.emit(this.currentTake.initial);
+    this.begin('overdubbing');
+  }
+
+  stop() {
+    if (this.state === 'idle') return;
+    window.clearInterval(this.timer!);
+    this.timer = null;
+    if (this.state === 'recording') {
+      this.currentTake = { duration: this.position, initial: this.initial, gestures: this.recorded };
+    } else if (this.state === 'overdubbing' && this.currentTake) {
+      this.currentTake = this.mergeOverdub(this.currentTake);
+    }
+    this.recorded = [];
+    this.setState('idle');
+    this.dispatchProgress();
+  }
+
+  load(take: GestureTake) {
+    this.stop();
+    this.currentTake = take;
+    this.dispatchProgress();
+  }
+
+  /** Notes what changed in the grid, adding gestures while recording or overdubbing. */
+  capture(prompts: Map<string, Prompt>) {
+    const time = this.position;
+    for (const { promptId, text, weight } of prompts.values()) {
+      const last = this.last.get(promptId);
+      if (last && last.text === text && last.weight === weight) continue;
+      this.last.set(promptId, { text, weight });
+      if (this.state === 'idle' || this.state === 'playing') continue;
+      this.recorded.push({ time, promptId, text, weight });
+      if (this.state === 'overdubbing' && !this.punchedIn.has(promptId)) this.punchedIn.set(promptId, time);
+    }
+  }
+
+  private begin(state: GestureState) {
+    this.startTime = performance.now();
+    this.nextIndex = 0;
+    this.timer = window.setInterval(() => this.step(), GESTURE_STEP_MS);
+    this.setState(state);
+    this.dispatchProgress();
+  }
+
+  private step() {
+    const position = this.position;
+    const take = this.currentTake;
+    if (take && (this.state === 'playing' || this.state === 'overdubbing')) {
+      const due: Gesture[] = [];
+      while (this.nextIndex < take.gestures.length && take.gestures[this.nextIndex].time <= position) {
+        const gesture = take.gestures[this.nextIndex++];
+        if (!this.isPunchedIn(gesture)) due.push(gesture);
+      }
+      if (due.length > 0) this.emit(due);
+      if (position >= take.duration) {
+        this.stop();
+        return;
+      }
+    }
+    this.dispatchProgress();
+  }
+
+  private isPunchedIn({ promptId, time }: Gesture) {
+    const punchIn = this.punchedIn.get(promptId);
+    return punchIn !== undefined && time >= punchIn;
+  }
+
+  /** The take with each touched prompt's old gestures replaced from its punch-in. */
+  private mergeOverdub(take: GestureTake): GestureTake {
+    const kept = take.gestures.filter((g) => !this.isPunchedIn(g));
+    return {
+      duration: take.duration,
+      initial: take.initial,
+      gestures: [...kept, ...this.recorded].sort((a, b) => a.time - b.time),
+    };
+  }
+
+  /** Sends gestures to be applied to the grid. */
+  private emit(gestures: Gesture[]) {
+    // Remembered first, so their echo back through capture is not recorded again.
+    for (const { promptId, text, weight } of gestures) this.last.set(promptId, { text, weight });
+    this.dispatchEvent(new CustomEvent<Gesture[]>('gestures', { detail: gestures }));
+  }
+
+  private dispatchProgress() {
+    this.dispatchEvent(new CustomEvent<number>('gesture-progress', { detail: this.position }));
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** Reported to the UI after each chunk and underrun. */
+export interface BufferHealth {
+  bufferedMs: number;
+  targetLatencyMs: number;
+  jitterMs: number;
+  underruns: number;
+}
+
+export interface JitterBufferOptions {
+  /** Latency used until enough chunks have arrived to measure jitter. */
+  initialLatency: number;
+  minLatency: number;
+  maxLatency: number;
+}
+
+export const DEFAULT_JITTER_BUFFER_OPTIONS: JitterBufferOptions = {
+  initialLatency: 2,
+  minLatency: 0.5,
+  maxLatency: 6,
+};
+
+/** Arrivals needed before the measured jitter is trusted. */
+const WARMUP_ARRIVALS = 4;
+/** Latency kept on top of the measured jitter, in seconds. */
+const SAFETY_MARGIN = 0.25;
+/** How many jitter deviations the target latency covers. */
+const JITTER_MULTIPLIER = 4;
+/** Extra latency added by each underrun, in seconds. */
+const UNDERRUN_BOOST = 0.5;
+/** Fraction of the underrun boost kept per on-time chunk. */
+const BOOST_DECAY = 0.9;
+
+/**
+ * Estimates how far ahead audio should be scheduled. Jitter is the smoothed
+ * deviation between chunk inter-arrival time and chunk duration (as in
+ * RFC 3550); underruns add a boost that decays while chunks arrive on time.
+ */
+export class JitterBuffer {
+  private readonly options: JitterBufferOptions;
+  private lastArrival: number | null = null;
+  private lastDuration = 0;
+  private arrivals = 0;
+  private jitter = 0;
+  private boost = 0;
+  private underrunCount = 0;
+
+  constructor(options: Partial<JitterBufferOptions> = {}) {
+    this.options = { ...DEFAULT_JITTER_BUFFER_OPTIONS, ...options };
+  }
+
+  get underruns() {
+    return this.underrunCount;
+  }
+
+  get jitterSeconds() {
+    return this.jitter;
+  }
+
+  /** Seconds of audio that should be buffered ahead of the playhead. */
+  get targetLatency() {
+    const { initialLatency, minLatency, maxLatency } = this.options;
+    const base = this.arrivals < WARMUP_ARRIVALS
+      ? initialLatency
+      : SAFETY_MARGIN + this.jitter * JITTER_MULTIPLIER;
+    return Math.min(maxLatency, Math.max(minLatency, base + this.boost));
+  }
+
+  /** Records that a chunk of `duration` seconds arrived at `time` seconds. */
+  recordArrival(time: number, duration: number) {
+    if (this.lastArrival !== null) {
+      const deviation = time - this.lastArrival - this.lastDuration;
+      this.jitter += (Math.abs(deviation) - this.jitter) / 16;
+    }
+    this.lastArrival = time;
+    this.lastDuration = duration;
+    this.arrivals++;
+    this.boost *= BOOST_DECAY;
+  }
+
+  recordUnderrun() {
+    this.underrunCount++;
+    this.boost = Math.min(this.options.maxLatency, this.boost + UNDERRUN_BOOST);
+  }
+
+  /** Forgets arrival timing, e.g. after a pause; learned jitter is kept. */
+  restart() {
+    this.lastArrival = null;
+  }
+
+  reset() {
+    this.restart();
+    this.arrivals = 0;
+    this.jitter = 0;
+    this.boost = 0;
+    this.underrunCount = 0;
+  }
+
+  health(bufferedSeconds: number): BufferHealth {
+    return {
+      bufferedMs: Math.max(0, Math.round(bufferedSeconds * 1000)),
+      targetLatencyMs: Math.round(this.targetLatency * 1000),
+      jitterMs: Math.round(this.jitter * 1000),
+      underruns: this.underrunCount,
+    };
+  }
+}
@@ -3,25 +3,78 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import type { PlaybackState, Prompt } from '../types';
-import type { AudioChunk, GoogleGenAI, LiveMusicFilteredPrompt, LiveMusicServerMessage, LiveMusicSession } from '@google/genai';
-import { decode, decodeAudioData } from './audio';
+import type { AudioChunk, LiveMusicFilteredPrompt, LiveMusicGenerationConfig } from '@google/genai';
+import { decodedLength } from './audio';
+import { JitterBuffer, type BufferHealth, type JitterBufferOptions } from './JitterBuffer';
+import type { MusicBackend, MusicBackendMessage, MusicBackendSession } from './MusicBackend';
+import { PcmPlayer } from './PcmPlayer';
+import { audiblePrompts } from './promptMix';
+import { DEFAULT_BPM, requiresReset } from './generationConfig';
 import { throttle } from './throttle';
+import { FilteredPromptStore } from './FilteredPromptStore';
+import { AppError, RECONNECT_ACTION, errorMessage } from './errors';
+import { MasterChain } from './MasterChain';
+import { FxRack } from './FxRack';
+import { canChooseOutput } from './AudioOutputs';
+
+/** Delay before sending config, so slider sweeps send only the final value. */
+const CONFIG_DELAY_MS = 150;
+
+/** Longer delay for changes that reset the context, which interrupts the music. */
+const CONFIG_RESET_DELAY_MS = 600;
+
+/** Format of the PCM chunks the backends send. */
+const SAMPLE_RATE = 48000;
+const CHANNELS = 2;
+
+/** How hard to try re-establishing a dropped session before giving up. */
+export interface ReconnectOptions {
+  maxAttempts: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RECONNECT_OPTIONS: ReconnectOptions = {
+  maxAttempts: 6,
+  initialDelayMs: 500,
+  maxDelayMs: 10_000,
+};
+
+/** Detail of the 'reconnecting' event, sent before each attempt is scheduled. */
+export interface ReconnectAttempt {
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+}
 
 export class LiveMusicHelper extends EventTarget {
 
-  private ai: GoogleGenAI;
-  private model: string;
+  private backend: MusicBackend;
 
-  private session: LiveMusicSession | null = null;
-  private sessionPromise: Promise<LiveMusicSession> | null = null;
+  private session: MusicBackendSession | null = null;
+  private sessionPromise: Promise<MusicBackendSession> | null = null;
 
   private connectionError = true;
 
-  private filteredPrompts = new Set<string>();
-  private nextStartTime = 0;
-  private bufferTime = 2;
+  /** Incremented per connection so callbacks from dropped sessions are ignored. */
+  private connectionId = 0;
+  private reconnectAttempt = 0;
+  private reconnectTimer: number | null = null;
+  public reconnectOptions: ReconnectOptions;
+
+  public readonly filteredPrompts = new FilteredPromptStore();
+  private readonly jitterBuffer: JitterBuffer;
+  private player: PcmPlayer | null = null;
+  private playerPromise: Promise<PcmPlayer> | null = null;
+  /** Whether the player is waiting for the target latency to be buffered. */
+  private buffering = true;
+  private bufferedSeconds = 0;
 
   public readonly audioContext: AudioContext;
+  /** Delay, reverb, beat repeat and tape stop, ahead of the master chain. */
+  public readonly fx: FxRack;
+  /** EQ, filter, fader and limiter between the music and every destination. */
+  public readonly master: MasterChain;
   public extraDestination: AudioNode | null = null;
 
   private outputNode: GainNode;
@@ -29,49 +82,150 @@ export class LiveMusicHelper extends EventTarget {
 
   private prompts: Map<string, Prompt>;
 
-  constructor(ai: GoogleGenAI, model: string) {
+  private config: LiveMusicGenerationConfig = {};
+  /** The config the session last received, used to detect context resets. */
+  private sentConfig: LiveMusicGenerationConfig | null = null;
+  private configTimer: number | null = null;
+
+  constructor(
+    backend: MusicBackend,
+    reconnectOptions: Partial<ReconnectOptions> = {},
+    jitterBufferOptions: Partial<JitterBufferOptions> = {},
+  ) {
     super();
-    this.ai = ai;
-    this.model = model;
+    this.backend = backend;
+    this.reconnectOptions = { ...DEFAULT_RECONNECT_OPTIONS, ...reconnectOptions };
+    this.jitterBuffer = new JitterBuffer(jitterBufferOptions);
     this.prompts = new Map();
-    this.audioContext = new AudioContext({ sampleRate: 48000 });
+    this.audioContext = new AudioContext({ sampleRate: SAMPLE_RATE });
     this.outputNode = this.audioContext.createGain();
+    this.fx = new FxRack(this.audioContext);
+    this.master = new MasterChain(this.audioContext);
+    this.fx.output.connect(this.master.input);
+    this.master.output.connect(this.audioContext.destination);
   }
 
-  private getSession(): Promise<LiveMusicSession> {
-    if (!this.sessionPromise) this.sessionPromise = this.connect();
+  private getSession(): Promise<MusicBackendSession> {
+    if (!this.sessionPromise) this.sessionPromise = this.connect().session;
     return this.sessionPromise;
   }
 
-  private async connect(): Promise<LiveMusicSession> {
-    this.sessionPromise = this.ai.live.music.connect({
-      model: this.model,
-      callbacks: {
-        onmessage: async (e: LiveMusicServerMessage) => {
-          if (e.setupComplete) {
-            this.connectionError = false;
-          }
-          if (e.filteredPrompt) {
-            this.filteredPrompts = new Set([...this.filteredPrompts, e.filteredPrompt.text!])
-            this.dispatchEvent(new CustomEvent<LiveMusicFilteredPrompt>('filtered-prompt', { detail: e.filteredPrompt }));
-          }
-          if (e.serverContent?.audioChunks) {
-            await this.processAudioChunks(e.serverContent.audioChunks);
-          }
-        },
-        onerror: () => {
-          this.connectionError = true;
-          this.stop();
-          this.dispatchEvent(new CustomEvent('error', { detail: 'Connection error, please restart audio.' }));
-        },
-        onclose: () => {
-          this.connectionError = true;
-          this.stop();
-          this.dispatchEvent(new CustomEvent('error', { detail: 'Connection error, please restart audio.' }));
-        },
+  /**
+   * Opens a session. Its id is the current one until the next connect, and
+   * messages from a session that is no longer current are ignored.
+   */
+  private connect(): { connectionId: number; session: Promise<MusicBackendSession> } {
+    const connectionId = ++this.connectionId;
+    const session = this.backend.connect({
+      onmessage: async (e: MusicBackendMessage) => {
+        if (connectionId !== this.connectionId) return;
+        if (e.setupComplete) {
+          this.connectionError = false;
+          this.reconnectAttempt = 0;
+        }
+        if (e.filteredPrompt) {
+          const { text, filteredReason } = e.filteredPrompt;
+          this.filteredPrompts.add(text!, filteredReason ?? 'Prompt was filtered');
+          this.dispatchEvent(new CustomEvent<LiveMusicFilteredPrompt>('filtered-prompt', { detail: e.filteredPrompt }));
+        }
+        if (e.serverContent?.audioChunks) {
+          this.processAudioChunks(e.serverContent.audioChunks);
+        }
       },
+      onerror: () => this.handleConnectionLost(connectionId),
+      onclose: () => this.handleConnectionLost(connectionId),
     });
-    return this.sessionPromise;
+    return { connectionId, session };
+  }
+
+  /**
+   * Reconnects if the music was meant to be playing, otherwise stops and
+   * asks the user to restart.
+   */
+  private handleConnectionLost(connectionId: number) {
+    if (connectionId !== this.connectionId) return;
+    this.connectionError = true;
+    this.session = null;
+    this.sessionPromise = null;
+    this.sentConfig = null;
+
+    const active = this.playbackState === 'playing'
+      || this.playbackState === 'loading'
+      || this.playbackState === 'reconnecting';
+    if (!active) {
+      this.stop();
+      this.dispatchError(new AppError('connection-lost', 'session', 'Connection error, please restart audio.', {
+        actions: [RECONNECT_ACTION],
+      }));
+      return;
+    }
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect() {
+    if (this.reconnectTimer !== null) return;
+    const { maxAttempts, initialDelayMs, maxDelayMs } = this.reconnectOptions;
+    if (this.reconnectAttempt >= maxAttempts) {
+      this.stop();
+      this.dispatchError(new AppError(
+        'reconnect-failed',
+        'session',
+        `Connection lost and ${maxAttempts} reconnect attempts failed, please restart audio.`,
+        { actions: [RECONNECT_ACTION] },
+      ));
+      return;
+    }
+
+    // Exponential backoff with +/-20% jitter.
+    const backoff = Math.min(maxDelayMs, initialDelayMs * 2 ** this.reconnectAttempt);
+    const delayMs = Math.round(backoff * (0.8 + Math.random() * 0.4));
+    this.reconnectAttempt++;
+    this.setPlaybackState('reconnecting');
+    this.dispatchEvent(new CustomEvent<ReconnectAttempt>('reconnecting', {
+      detail: { attempt: this.reconnectAttempt, maxAttempts, delayMs },
+    }));
+    this.reconnectTimer = window.setTimeout(() => {
+      this.reconnectTimer = null;
+      this.reconnect();
+    }, delayMs);
+  }
+
+  /** Opens a new session and restores the prompts, config and playback. */
+  private async reconnect() {
+    const { connectionId, session: connecting } = this.connect();
+    this.sessionPromise = connecting;
+    try {
+      const session = await connecting;
+      if (connectionId !== this.connectionId || this.playbackState !== 'reconnecting') {
+        // Stopped while connecting; don't leave the new session open, and
+        // make sure its close callback is ignored.
+        if (connectionId === this.connectionId) this.connectionId++;
+        session.close();
+        return;
+      }
+      this.session = session;
+      await this.sendMusicGenerationConfig();
+      await this.sendWeightedPrompts();
+      this.jitterBuffer.restart();
+      session.play();
+    } catch (e) {
+      if (connectionId !== this.connectionId) return;
+      this.session = null;
+      this.sessionPromise = null;
+      this.scheduleReconnect();
+    }
+  }
+
+  private dispatchError(error: AppError) {
+    this.dispatchEvent(new CustomEvent<AppError>('error', { detail: error }));
+  }
+
+  private cancelReconnect() {
+    if (this.reconnectTimer !== null) {
+      window.clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.reconnectAttempt = 0;
   }
 
   private setPlaybackState(state: PlaybackState) {
@@ -79,34 +233,69 @@ export class LiveMusicHelper extends EventTarget {
     this.dispatchEvent(new CustomEvent('playback-state-changed', { detail: state }));
   }
 
-  private async processAudioChunks(audioChunks: AudioChunk[]) {
+  private getPlayer(): Promise<PcmPlayer> {
+    if (!this.playerPromise) this.playerPromise = this.createPlayer();
+    return this.playerPromise;
+  }
+
+  private async createPlayer(): Promise<PcmPlayer> {
+    const player = await PcmPlayer.create(this.audioContext, CHANNELS);
+    player.addEventListener('decoded', ((e: Event) => {
+      const customEvent = e as CustomEvent<Float32Array[]>;
+      this.fx.history.push(customEvent.detail);
+      this.dispatchEvent(new CustomEvent<Float32Array[]>('audio-data', { detail: customEvent.detail }));
+    }));
+    player.addEventListener('started', () => this.handlePlaybackStarted());
+    player.addEventListener('underrun', () => this.handleUnderrun());
+    player.addEventListener('buffered', ((e: Event) => {
+      const customEvent = e as CustomEvent<number>;
+      this.bufferedSeconds = customEvent.detail;
+      this.fx.history.setBuffered(customEvent.detail, this.audioContext.currentTime);
+      this.dispatchBufferHealth();
+    }));
+    this.player = player;
+    return player;
+  }
+
+  private handlePlaybackStarted() {
     if (this.playbackState === 'paused' || this.playbackState === 'stopped') return;
-    const audioBuffer = await decodeAudioData(
-      decode(audioChunks[0].data!),
-      this.audioContext,
-      48000,
-      2,
-    );
-    const source = this.audioContext.createBufferSource();
-    source.buffer = audioBuffer;
-    source.connect(this.outputNode);
-    if (this.nextStartTime === 0) {
-      this.nextStartTime = this.audioContext.currentTime + this.bufferTime;
-      setTimeout(() => {
-        this.setPlaybackState('playing');
-      }, this.bufferTime * 1000);
+    this.buffering = false;
+    if (this.playbackState === 'loading' || this.playbackState === 'reconnecting') {
+      this.setPlaybackState('playing');
     }
-    if (this.nextStartTime < this.audioContext.currentTime) {
-      this.setPlaybackState('loading');
-      this.nextStartTime = 0;
-      return;
-    }
-    source.start(this.nextStartTime);
-    this.nextStartTime += audioBuffer.duration;
+  }
+
+  /** The buffer ran dry: the player has faded out and rebuffers to a longer latency. */
+  private handleUnderrun() {
+    if (this.playbackState === 'paused' || this.playbackState === 'stopped') return;
+    this.buffering = true;
+    this.jitterBuffer.recordUnderrun();
+    this.player?.setTargetLatency(this.jitterBuffer.targetLatency);
+    if (this.playbackState === 'playing') this.setPlaybackState('loading');
+    this.dispatchBufferHealth();
+  }
+
+  private processAudioChunks(audioChunks: AudioChunk[]) {
+    if (this.playbackState === 'paused' || this.playbackState === 'stopped') return;
+    if (!this.player) return;
+    const data = audioChunks[0].data!;
+    const duration = decodedLength(data) / 2 / CHANNELS / SAMPLE_RATE;
+    this.jitterBuffer.recordArrival(this.audioContext.currentTime, duration);
+    this.player.setTargetLatency(this.jitterBuffer.targetLatency);
+    this.player.push(data);
+
+    // A reconnect that caught up before the buffer ran dry plays on seamlessly.
+    if (this.playbackState === 'reconnecting' && !this.buffering) this.setPlaybackState('playing');
+  }
+
+  private dispatchBufferHealth() {
+    this.dispatchEvent(new CustomEvent<BufferHealth>('buffer-health', {
+      detail: this.jitterBuffer.health(this.bufferedSeconds),
+    }));
   }
 
   public get activePrompts() {
-    return Array.from(this.prompts.values())
+    return audiblePrompts(this.prompts.values())
       .filter((p) => {
         return !this.filteredPrompts.has(p.text) && p.weight !== 0;
       })
@@ -114,9 +303,22 @@ export class LiveMusicHelper extends EventTarget {
 
   public readonly setWeightedPrompts = throttle(async (prompts: Map<string, Prompt>) => {
     this.prompts = prompts;
+    this.filteredPrompts.retain([...prompts.values()].map((p) => p.text));
+    await this.sendWeightedPrompts();
+  }, 200);
+
+  /** Clears a text's filtered mark and sends the prompts again, so the server can reconsider it. */
+  public async retryFilteredPrompt(text: string) {
+    this.filteredPrompts.delete(text);
+    const sent = await this.setWeightedPrompts.flush();
+    if (!sent && this.session) await this.sendWeightedPrompts();
+  }
 
+  private async sendWeightedPrompts() {
     if (this.activePrompts.length === 0) {
-      this.dispatchEvent(new CustomEvent('error', { detail: 'There needs to be one active prompt to play.' }));
+      this.dispatchError(new AppError('no-active-prompts', 'playback', 'There needs to be one active prompt to play.', {
+        severity: 'warning',
+      }));
       this.pause();
       return;
     }
@@ -132,41 +334,136 @@ export class LiveMusicHelper extends EventTarget {
       await this.session.setWeightedPrompts({
         weightedPrompts,
       });
-    } catch (e: any) {
-      this.dispatchEvent(new CustomEvent('error', { detail: e.message }));
+    } catch (e) {
+      this.dispatchError(new AppError('request-failed', 'session', errorMessage(e), { cause: e }));
       this.pause();
     }
-  }, 200);
+  }
+
+  /**
+   * Updates the music generation config. Changes are sent after a short delay;
+   * BPM and scale changes also reset the session's context, which the model
+   * needs before it follows them.
+   */
+  public setMusicGenerationConfig(config: LiveMusicGenerationConfig) {
+    this.config = { ...config };
+    this.fx.setBpm(config.bpm ?? DEFAULT_BPM);
+    if (!this.session) return;
+    if (this.configTimer !== null) window.clearTimeout(this.configTimer);
+    const needsReset = this.sentConfig !== null && requiresReset(this.sentConfig, this.config);
+    this.configTimer = window.setTimeout(() => {
+      this.configTimer = null;
+      this.sendMusicGenerationConfig();
+    }, needsReset ? CONFIG_RESET_DELAY_MS : CONFIG_DELAY_MS);
+  }
+
+  private async sendMusicGenerationConfig() {
+    if (!this.session) return;
+    const config = this.config;
+    const needsReset = this.sentConfig !== null && requiresReset(this.sentConfig, config);
+    try {
+      await this.session.setMusicGenerationConfig({ musicGenerationConfig: config });
+      this.sentConfig = config;
+      if (needsReset) this.session.resetContext();
+    } catch (e) {
+      this.dispatchError(new AppError('request-failed', 'session', errorMessage(e), { cause: e }));
+    }
+  }
+
+  /** Plays to the audio output with this id, or to the default output for null. */
+  public async setOutputDevice(id: string | null) {
+    const context = this.audioContext;
+    if (!canChooseOutput(context)) {
+      if (id === null) return;
+      this.dispatchError(new AppError(
+        'output-unsupported',
+        'output',
+        'Your browser can only play to the default audio output.',
+        { severity: 'warning' },
+      ));
+      return;
+    }
+    try {
+      await context.setSinkId(id ?? '');
+    } catch (e) {
+      this.dispatchError(new AppError('output-failed', 'output', `Unable to switch audio output: ${errorMessage(e)}`, {
+        cause: e,
+      }));
+    }
+  }
 
   public async play() {
     this.setPlaybackState('loading');
-    this.session = await this.getSession();
-    await this.setWeightedPrompts(this.prompts);
+    let player: PcmPlayer;
+    try {
+      player = await this.getPlayer();
+    } catch (e) {
+      // Forget the failed player so the next play loads the worklet again.
+      this.playerPromise = null;
+      this.setPlaybackState('stopped');
+      this.dispatchError(new AppError('player-failed', 'playback', `Unable to start audio: ${errorMessage(e)}`, {
+        cause: e,
+      }));
+      return;
+    }
+    try {
+      this.session = await this.getSession();
+    } catch (e) {
+      // Forget the failed attempt so the next play connects afresh.
+      this.sessionPromise = null;
+      this.setPlaybackState('stopped');
+      this.dispatchError(new AppError('connect-failed', 'session', `Unable to connect: ${errorMessage(e)}`, {
+        actions: [RECONNECT_ACTION],
+        cause: e,
+      }));
+      return;
+    }
+    if (this.sentConfig === null) await this.sendMusicGenerationConfig();
+    // Changes still waiting out the throttle are sent as they flush; otherwise
+    // the new session still needs the current prompts.
+    const sent = await this.setWeightedPrompts.flush();
+    if (!sent) await this.sendWeightedPrompts();
     this.audioContext.resume();
+    player.clear();
+    player.setTargetLatency(this.jitterBuffer.targetLatency);
+    this.buffering = true;
+    player.node.disconnect();
+    player.node.connect(this.outputNode);
     this.session.play();
-    this.outputNode.connect(this.audioContext.destination);
-    if (this.extraDestination) this.outputNode.connect(this.extraDestination);
+    this.outputNode.connect(this.fx.input);
+    if (this.extraDestination) this.master.output.connect(this.extraDestination);
     this.outputNode.gain.setValueAtTime(0, this.audioContext.currentTime);
     this.outputNode.gain.linearRampToValueAtTime(1, this.audioContext.currentTime + 0.1);
   }
 
   public pause() {
+    this.cancelReconnect();
     if (this.session) this.session.pause();
     this.setPlaybackState('paused');
     this.outputNode.gain.setValueAtTime(1, this.audioContext.currentTime);
     this.outputNode.gain.linearRampToValueAtTime(0, this.audioContext.currentTime + 0.1);
-    this.nextStartTime = 0;
+    this.player?.clear();
+    this.fx.history.reset();
+    this.buffering = true;
+    this.jitterBuffer.restart();
     this.outputNode = this.audioContext.createGain();
   }
 
   public stop() {
+    this.cancelReconnect();
     if (this.session) this.session.stop();
     this.setPlaybackState('stopped');
     this.outputNode.gain.setValueAtTime(0, this.audioContext.currentTime);
     this.outputNode.gain.linearRampToValueAtTime(1, this.audioContext.currentTime + 0.1);
-    this.nextStartTime = 0;
+    this.player?.clear();
+    this.fx.history.reset();
+    this.buffering = true;
+    this.bufferedSeconds = 0;
+    this.jitterBuffer.reset();
+    this.dispatchBufferHealth();
     this.session = null;
     this.sessionPromise = null;
+    this.sentConfig = null;
   }
 
   public async playPause() {
@@ -177,6 +474,7 @@ export class LiveMusicHelper extends EventTarget {
       case 'stopped':
         return this.play();
       case 'loading':
+      case 'reconnecting':
         return this.stop();
     }
   }
@@ -0,0 +1,20 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { GoogleGenAI } from '@google/genai';
+import type { MusicBackend, MusicBackendCallbacks, MusicBackendSession } from './MusicBackend';
+
+/** Generates music with Lyria RealTime through the Gemini API. */
+export class LyriaBackend implements MusicBackend {
+  readonly name = 'lyria';
+
+  constructor(
+    private readonly ai: GoogleGenAI,
+    private readonly model: string,
+  ) {}
+
+  connect(callbacks: MusicBackendCallbacks): Promise<MusicBackendSession> {
+    return this.ai.live.music.connect({ model: this.model, callbacks });
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { MasterSettings } from '../types';
+import { DEFAULT_MASTER_SETTINGS } from './masterSettings';
+
+/** Crossover frequencies of the 3-band EQ, in Hz. */
+const LOW_FREQUENCY = 250;
+const MID_FREQUENCY = 1000;
+const HIGH_FREQUENCY = 4000;
+
+/**
+ * Band gain when killed. BiquadFilterNode takes far lower gains than the
+ * EQ's range, and at -100 dB the band itself is inaudible; only the slopes
+ * where it meets its neighbours are left.
+ */
+const KILL_GAIN_DB = -100;
+
+/** Range the filter sweeps over, in Hz. */
+const MIN_FILTER_FREQUENCY = 20;
+const MAX_FILTER_FREQUENCY = 20000;
+
+/** Filter positions this close to the middle leave it open, so a knob's detent is silent. */
+const FILTER_DEAD_ZONE = 0.02;
+
+/** Time constant of parameter changes in seconds, short enough to feel instant without zipper noise. */
+const SMOOTHING = 0.01;
+
+/**
+ * The master chain: 3-band EQ, filter sweep, fader and brickwall limiter,
+ * in that order. Connect the music to `input` and `output` to wherever it
+ * should be heard.
+ */
+export class MasterChain {
+  readonly input: GainNode;
+  readonly output: GainNode;
+  private readonly low: BiquadFilterNode;
+  private readonly mid: BiquadFilterNode;
+  private readonly high: BiquadFilterNode;
+  private readonly filter: BiquadFilterNode;
+  private readonly fader: GainNode;
+  private readonly limiter: DynamicsCompressorNode;
+  private limiting: boolean | null = null;
+
+  constructor(private readonly context: BaseAudioContext) {
+    this.input = context.createGain();
+    this.output = context.createGain();
+
+    this.low = new BiquadFilterNode(context, { type: 'lowshelf', frequency: LOW_FREQUENCY });
+    this.mid = new BiquadFilterNode(context, { type: 'peaking', frequency: MID_FREQUENCY, Q: 0.7 });
+    this.high = new BiquadFilterNode(context, { type: 'highshelf', frequency: HIGH_FREQUENCY });
+    this.filter = new BiquadFilterNode(context, { type: 'allpass' });
+    this.fader = context.createGain();
+    // Fast attack, high ratio and no knee: as close to brickwall as the node gets.
+    this.limiter = new DynamicsCompressorNode(context, {
+      threshold: -1,
+      knee: 0,
+      ratio: 20,
+      attack: 0.001,
+      release: 0.1,
+    });
+
+    this.input.connect(this.low).connect(this.mid).connect(this.high).connect(this.filter).connect(this.fader);
+    this.limiter.connect(this.output);
+    this.apply(DEFAULT_MASTER_SETTINGS);
+  }
+
+  apply(settings: MasterSettings) {
+    this.setParam(this.fader.gain, settings.volume ** 2);
+    this.setParam(this.low.gain, settings.lowKill ? KILL_GAIN_DB : settings.low);
+    this.setParam(this.mid.gain, settings.midKill ? KILL_GAIN_DB : settings.mid);
+    this.setParam(this.high.gain, settings.highKill ? KILL_GAIN_DB : settings.high);
+    this.applyFilter(settings.filter, settings.resonance);
+    this.applyLimiter(settings.limiter);
+  }
+
+  private setParam(param: AudioParam, value: number) {
+    param.setTargetAtTime(value, this.context.currentTime, SMOOTHING);
+  }
+
+  /** Left of centre closes a low-pass from the top, right of centre opens a high-pass from the bottom. */
+  private applyFilter(position: number, resonance: number) {
+    const amount = Math.abs(position);
+    if (amount < FILTER_DEAD_ZONE) {
+      this.filter.type = 'allpass';
+      return;
+    }
+    // Exponential, so equal knob travel moves equal musical intervals.
+    const range = MAX_FILTER_FREQUENCY / MIN_FILTER_FREQUENCY;
+    const type = position < 0 ? 'lowpass' : 'highpass';
+    const frequency = type === 'lowpass'
+      ? MAX_FILTER_FREQUENCY / range ** amount
+      : MIN_FILTER_FREQUENCY * range ** amount;
+    if (this.filter.type !== type) {
+      // Jumping the frequency avoids a sweep from the old type's setting.
+      this.filter.type = type;
+      this.filter.frequency.setValueAtTime(frequency, this.context.currentTime);
+    }
+    this.setParam(this.filter.frequency, frequency);
+    this.setParam(this.filter.Q, resonance);
+  }
+
+  private applyLimiter(on: boolean) {
+    if (on === this.limiting) return;
+    this.limiting = on;
+    this.fader.disconnect();
+    this.fader.connect(on ? this.limiter : this.output);
+  }
+}
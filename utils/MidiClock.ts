@@ -0,0 +1,121 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** MIDI clock pulses per quarter note. */
+export const PULSES_PER_BEAT = 24;
+
+/** Pulses averaged for the tempo estimate: two beats. */
+const TEMPO_WINDOW = PULSES_PER_BEAT * 2;
+
+/** A gap this long means the clock stopped, so old pulses are forgotten. */
+const CLOCK_TIMEOUT_MS = 1000;
+
+/**
+ * Reported tempo only changes once the estimate moves this far, since BPM
+ * changes reset the generation context and clocks always jitter a little.
+ */
+const TEMPO_HYSTERESIS = 0.75;
+
+/** How often the generator wakes up to schedule pulses. */
+const SCHEDULE_INTERVAL_MS = 25;
+
+/** How far ahead pulses are scheduled with timestamps. */
+const LOOKAHEAD_MS = 100;
+
+/**
+ * Derives a tempo from incoming MIDI clock. Dispatches 'tempo' with a whole
+ * BPM when it changes.
+ */
+export class ClockFollower extends EventTarget {
+  private pulses: number[] = [];
+  private tempo: number | null = null;
+
+  get bpm() {
+    return this.tempo;
+  }
+
+  tick(time: number) {
+    const last = this.pulses[this.pulses.length - 1];
+    if (last !== undefined && time - last > CLOCK_TIMEOUT_MS) this.pulses = [];
+    this.pulses.push(time);
+    if (this.pulses.length > TEMPO_WINDOW + 1) this.pulses.shift();
+    if (this.pulses.length <= PULSES_PER_BEAT) return;
+
+    const elapsed = time - this.pulses[0];
+    const msPerBeat = (elapsed / (this.pulses.length - 1)) * PULSES_PER_BEAT;
+    const bpm = 60000 / msPerBeat;
+    if (this.tempo !== null && Math.abs(bpm - this.tempo) < TEMPO_HYSTERESIS) return;
+    this.tempo = Math.round(bpm);
+    this.dispatchEvent(new CustomEvent<number>('tempo', { detail: this.tempo }));
+  }
+
+  reset() {
+    this.pulses = [];
+    this.tempo = null;
+  }
+}
+
+/**
+ * Sends MIDI clock so external gear follows the app's tempo. Pulses are
+ * scheduled slightly ahead with timestamps, so timer jitter on the main
+ * thread doesn't reach the output. If a send fails, e.g. because the output
+ * was unplugged, the generator stops and dispatches 'send-failed' with the
+ * error.
+ */
+export class ClockGenerator extends EventTarget {
+  bpm = 120;
+  private timer: number | null = null;
+  private nextPulse = 0;
+
+  constructor(private readonly send: (data: number[], timestamp?: number) => void) {
+    super();
+  }
+
+  get running() {
+    return this.timer !== null;
+  }
+
+  start() {
+    if (this.timer !== null) return;
+    this.nextPulse = performance.now();
+    this.schedule();
+    this.timer = window.setInterval(() => this.schedule(), SCHEDULE_INTERVAL_MS);
+  }
+
+  stop() {
+    if (this.timer === null) return;
+    window.clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /** Sends a transport message on the next pulse, so it lands on the grid. */
+  sendTransport(status: 0xfa | 0xfb | 0xfc) {
+    this.trySend([status], this.running ? this.nextPulse : undefined);
+  }
+
+  private schedule() {
+    const now = performance.now();
+    const until = now + LOOKAHEAD_MS;
+    const interval = 60000 / this.bpm / PULSES_PER_BEAT;
+    // After a throttled background tab, skip the pulses that were missed
+    // rather than sending them in a burst that would race the tempo.
+    if (this.nextPulse < now) this.nextPulse += Math.ceil((now - this.nextPulse) / interval) * interval;
+    while (this.nextPulse < until) {
+      if (!this.trySend([0xf8], this.nextPulse)) return;
+      this.nextPulse += interval;
+    }
+  }
+
+  private trySend(data: number[], timestamp?: number) {
+    try {
+      this.send(data, timestamp);
+      return true;
+    } catch (e) {
+      this.stop();
+      this.dispatchEvent(new CustomEvent<unknown>('send-failed', { detail: e }));
+      return false;
+    }
+  }
+}
@@ -2,64 +2,182 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import type { ControlChange } from '../types';
+import { AppError, GRANT_MIDI_ACTION } from './errors';
+import { MidiParser } from './MidiParser';
 
-/** Simple class for dispatching MIDI CC messages as events. */
+/** Detail of 'device-connected' and 'device-disconnected'. */
+export interface MidiDeviceChange {
+  id: string;
+  name: string;
+}
+
+/** Whether a mapping learned on `device` (null: any input) applies to a message from `source`. */
+export function matchesDevice(device: string | null, source: string) {
+  return device === null || device === source;
+}
+
+/**
+ * Dispatches messages from the active MIDI inputs as events named after
+ * MidiEvent['type'], e.g. 'cc-message', 'note-on' or 'nrpn-message'.
+ *
+ * Devices can be plugged in and out at any time: 'devices-changed' is
+ * dispatched whenever the list of inputs or outputs changes, along with
+ * 'device-connected' or 'device-disconnected' for inputs.
+ */
 export class MidiDispatcher extends EventTarget {
   private access: MIDIAccess | null = null;
-  activeMidiInputId: string | null = null;
+  /** Inputs whose messages are dispatched; kept while unplugged so they resume on reconnect. */
+  activeMidiInputIds: string[] = [];
+  activeMidiOutputId: string | null = null;
+  /** One per input, since 14-bit and NRPN state must not mix between devices. */
+  private parsers = new Map<string, MidiParser>();
+  /** Ports last seen connected, to tell plugging in and out from other state changes. */
+  private connectedPorts = new Set<string>();
 
   async getMidiAccess(): Promise<string[]> {
 
     if (this.access) {
-      return [...this.access.inputs.keys()];
+      return this.getInputIds();
     }
 
     if (!navigator.requestMIDIAccess) {
-      throw new Error('Your browser does not support the Web MIDI API. For a list of compatible browsers, see https://caniuse.com/midi');
+      throw new AppError(
+        'midi-unsupported',
+        'midi',
+        'Your browser does not support the Web MIDI API. For a list of compatible browsers, see https://caniuse.com/midi',
+      );
     }
 
-    this.access = await navigator
-      .requestMIDIAccess({ sysex: false })
-      .catch((error) => error);
-
-    if (this.access === null) {
-      throw new Error('Unable to acquire MIDI access.');
+    try {
+      this.access = await navigator.requestMIDIAccess({ sysex: false });
+    } catch (e) {
+      throw new AppError('midi-denied', 'midi', 'Unable to acquire MIDI access.', {
+        actions: [GRANT_MIDI_ACTION],
+        cause: e,
+      });
     }
 
-    const inputIds = [...this.access.inputs.keys()];
+    const inputIds = this.getInputIds();
 
-    if (inputIds.length > 0 && this.activeMidiInputId === null) {
-      this.activeMidiInputId = inputIds[0];
+    // Fall back to the first input when none was chosen, or the chosen ones
+    // (e.g. restored from a previous session) are no longer connected.
+    const hasActiveInput = this.activeMidiInputIds.some((id) => inputIds.includes(id));
+    if (inputIds.length > 0 && !hasActiveInput) {
+      this.activeMidiInputIds = [inputIds[0]];
     }
 
     for (const input of this.access.inputs.values()) {
-      input.onmidimessage = (event: MIDIMessageEvent) => {
-        if (input.id !== this.activeMidiInputId) return;
-
-        const { data } = event;
-        if (!data) {
-          console.error('MIDI message has no data');
-          return;
-        }
-
-        const statusByte = data[0];
-        const channel = statusByte & 0x0f;
-        const messageType = statusByte & 0xf0;
-
-        const isControlChange = messageType === 0xb0;
-        if (!isControlChange) return;
-
-        const detail: ControlChange = { cc: data[1], value: data[2], channel };
-        this.dispatchEvent(
-          new CustomEvent<ControlChange>('cc-message', { detail }),
-        );
-      };
+      if (input.state === 'connected') this.attachInput(input);
     }
+    for (const id of this.getOutputIds()) this.connectedPorts.add(id);
+    this.access.onstatechange = (event: Event) => this.handleStateChange(event as MIDIConnectionEvent);
 
     return inputIds;
   }
 
+  /** Ids of the connected inputs; empty until getMidiAccess has succeeded. */
+  getInputIds(): string[] {
+    if (!this.access) return [];
+    return [...this.access.inputs.values()].filter((i) => i.state === 'connected').map((i) => i.id);
+  }
+
+  isInputActive(id: string) {
+    return this.activeMidiInputIds.includes(id);
+  }
+
+  setInputActive(id: string, active: boolean) {
+    const others = this.activeMidiInputIds.filter((i) => i !== id);
+    this.activeMidiInputIds = active ? [...others, id] : others;
+  }
+
+  private attachInput(input: MIDIInput) {
+    this.connectedPorts.add(input.id);
+    input.onmidimessage = (event: MIDIMessageEvent) => {
+      if (!this.isInputActive(input.id)) return;
+
+      const { data } = event;
+      if (!data) {
+        console.error('MIDI message has no data');
+        return;
+      }
+
+      for (const { type, detail } of this.parserFor(input).parse(data, event.timeStamp)) {
+        this.dispatchEvent(new CustomEvent(type, { detail }));
+      }
+    };
+  }
+
+  /**
+   * Fires for every port state and connection change (e.g. when an output is
+   * opened), so only plugging in and out is reported.
+   */
+  private handleStateChange(event: MIDIConnectionEvent) {
+    const port = event.port;
+    if (!port) return;
+    const connected = port.state === 'connected';
+    if (connected === this.connectedPorts.has(port.id)) return;
+
+    if (connected) {
+      this.connectedPorts.add(port.id);
+    } else {
+      this.connectedPorts.delete(port.id);
+    }
+    if (port.type === 'input') {
+      const detail: MidiDeviceChange = { id: port.id, name: port.name ?? port.id };
+      if (connected) {
+        this.attachInput(port as MIDIInput);
+      } else {
+        this.parsers.delete(port.id);
+      }
+      this.dispatchEvent(new CustomEvent<MidiDeviceChange>(connected ? 'device-connected' : 'device-disconnected', { detail }));
+    }
+    this.dispatchEvent(new CustomEvent<string[]>('devices-changed', { detail: this.getInputIds() }));
+  }
+
+  private parserFor(input: MIDIInput): MidiParser {
+    let parser = this.parsers.get(input.id);
+    if (!parser) {
+      parser = new MidiParser(input.name ?? input.id);
+      this.parsers.set(input.id, parser);
+    }
+    return parser;
+  }
+
+  /** Ids of the connected outputs; empty until getMidiAccess has succeeded. */
+  getOutputIds(): string[] {
+    if (!this.access) return [];
+    return [...this.access.outputs.values()].filter((o) => o.state === 'connected').map((o) => o.id);
+  }
+
+  getOutputName(id: string): string | null {
+    return this.access?.outputs.get(id)?.name ?? null;
+  }
+
+  /**
+   * Picks the output to send feedback on: the chosen one if still connected,
+   * else one named like an active input, which is how most controllers
+   * pair their ports.
+   */
+  resolveOutput(): string | null {
+    const outputIds = this.getOutputIds();
+    if (this.activeMidiOutputId !== null && outputIds.includes(this.activeMidiOutputId)) {
+      return this.activeMidiOutputId;
+    }
+    const inputNames = this.activeMidiInputIds.map((id) => this.getDeviceName(id));
+    this.activeMidiOutputId = outputIds.find((id) => inputNames.includes(this.getOutputName(id))) ?? outputIds[0] ?? null;
+    return this.activeMidiOutputId;
+  }
+
+  /**
+   * Sends raw bytes to the active output, if there is one, optionally at a
+   * performance.now() time in the near future.
+   */
+  send(data: number[], timestamp?: number) {
+    const id = this.activeMidiOutputId;
+    const output = id ? this.access?.outputs.get(id) : undefined;
+    output?.send(data, timestamp);
+  }
+
   getDeviceName(id: string): string | null {
     if (!this.access) {
       return null;
@@ -67,4 +185,15 @@ export class MidiDispatcher extends EventTarget {
     const input = this.access.inputs.get(id);
     return input ? input.name : null;
   }
+
+  /** Returns the id of a connected input with the given name. */
+  findInputByName(name: string): string | null {
+    if (!this.access) {
+      return null;
+    }
+    for (const input of this.access.inputs.values()) {
+      if (input.name === name) return input.id;
+    }
+    return null;
+  }
 }
@@ -0,0 +1,133 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ButtonMapping, ControlChange, FeedbackScaling, Prompt } from '../types';
+import { weightToPosition } from './controlResponse';
+import type { MidiDispatcher } from './MidiDispatcher';
+import { isObject, type ValidationError } from './validation';
+
+export const DEFAULT_FEEDBACK_SCALING: FeedbackScaling = { min: 0, max: 127 };
+
+/**
+ * How long a control that just sent a value is left alone, so a motor fader
+ * or encoder being moved isn't fought by its own echo.
+ */
+const ECHO_SUPPRESS_MS = 250;
+
+/** Velocity or CC value that lights a pad or button LED. */
+const LED_ON_VALUE = 127;
+
+/**
+ * Echoes prompt weights back to the controller, so LED rings, motor faders
+ * and pad lights follow changes made with the mouse, scenes or automation.
+ * Only values that changed are sent, and controls that were just moved by
+ * hand are skipped to avoid feedback loops. Pads don't echo their notes, so
+ * their lights are always updated.
+ */
+export class MidiFeedback {
+  enabled = false;
+  /** Output range per device name, e.g. 0-15 for LED rings with 16 steps. */
+  scaling: Record<string, FeedbackScaling> = {};
+
+  /** Last value known to be shown by each control, keyed by controlKey. */
+  private sent = new Map<string, number>();
+  private receivedAt = new Map<string, number>();
+
+  constructor(private readonly midiDispatcher: MidiDispatcher) {
+    midiDispatcher.addEventListener('cc-message', (e: Event) => {
+      const { channel, cc, value } = (e as CustomEvent<ControlChange>).detail;
+      this.recordIncoming(controlKey('cc', channel, cc), value);
+    });
+  }
+
+  /** The range used for the active output. */
+  get currentScaling(): FeedbackScaling {
+    const outputId = this.midiDispatcher.activeMidiOutputId;
+    const name = outputId ? this.midiDispatcher.getOutputName(outputId) : null;
+    return (name && this.scaling[name]) || DEFAULT_FEEDBACK_SCALING;
+  }
+
+  setCurrentScaling(scaling: FeedbackScaling) {
+    const outputId = this.midiDispatcher.activeMidiOutputId;
+    const name = outputId ? this.midiDispatcher.getOutputName(outputId) : null;
+    if (!name) return;
+    this.scaling = { ...this.scaling, [name]: scaling };
+    this.resync();
+  }
+
+  /** Forgets what the controller shows, so the next update resends everything. */
+  resync() {
+    this.sent.clear();
+  }
+
+  /** Sends the weights and pad states that changed since the last update. */
+  update(prompts: Iterable<Prompt>) {
+    if (!this.enabled || this.midiDispatcher.resolveOutput() === null) return;
+    const { min, max } = this.currentScaling;
+    const now = performance.now();
+
+    for (const prompt of prompts) {
+      // Through the prompt's curve and range, so the control lands where it would produce this weight.
+      const value = Math.round(min + weightToPosition(prompt.response, prompt.weight) * (max - min));
+      this.sendIfChanged(controlKey('cc', prompt.channel, prompt.cc), value, now, () => {
+        this.midiDispatcher.send([0xb0 | prompt.channel, prompt.cc, value]);
+      });
+
+      this.sendButton(prompt.muteButton, prompt.muted, now);
+      this.sendButton(prompt.soloButton, prompt.solo, now);
+
+      if (prompt.note === null) continue;
+      const velocity = prompt.weight > 0 ? LED_ON_VALUE : 0;
+      // Pads learned before their channel was kept light on the CC's.
+      const noteChannel = prompt.noteChannel ?? prompt.channel;
+      this.sendIfChanged(controlKey('note', noteChannel, prompt.note), velocity, now, () => {
+        this.midiDispatcher.send([(velocity > 0 ? 0x90 : 0x80) | noteChannel, prompt.note!, velocity]);
+      });
+    }
+  }
+
+  /**
+   * Lights a mute or solo button while its toggle is on. Buttons are keyed
+   * apart from knobs, so the value a CC button sends isn't taken as shown.
+   */
+  private sendButton(button: ButtonMapping | null, on: boolean, now: number) {
+    if (button === null) return;
+    const { type, channel, number } = button;
+    const value = on ? LED_ON_VALUE : 0;
+    this.sendIfChanged(controlKey(`${type}-button`, channel, number), value, now, () => {
+      const status = type === 'cc' ? 0xb0 : on ? 0x90 : 0x80;
+      this.midiDispatcher.send([status | channel, number, value]);
+    });
+  }
+
+  private sendIfChanged(key: string, value: number, now: number, send: () => void) {
+    if (this.sent.get(key) === value) return;
+    const receivedAt = this.receivedAt.get(key);
+    if (receivedAt !== undefined && now - receivedAt < ECHO_SUPPRESS_MS) return;
+    this.sent.set(key, value);
+    send();
+  }
+
+  private recordIncoming(key: string, value: number) {
+    // The control already shows what it sent.
+    this.sent.set(key, value);
+    this.receivedAt.set(key, performance.now());
+  }
+}
+
+function controlKey(kind: 'cc' | 'note' | `${ButtonMapping['type']}-button`, channel: number, number: number) {
+  return `${kind}:${channel}:${number}`;
+}
+
+/** Checks a stored map of device names to feedback ranges. */
+export function validateFeedbackScaling(value: unknown, path: string): ValidationError[] {
+  if (!isObject(value)) return [{ path, message: 'must be an object' }];
+  return Object.entries(value).flatMap(([device, scaling]): ValidationError[] => {
+    const itemPath = `${path}[${JSON.stringify(device)}]`;
+    if (!isObject(scaling)) return [{ path: itemPath, message: 'must be an object' }];
+    return (['min', 'max'] as const)
+      .filter((key) => !Number.isInteger(scaling[key]) || (scaling[key] as number) < 0 || (scaling[key] as number) > 127)
+      .map((key) => ({ path: `${itemPath}.${key}`, message: 'must be an integer between 0 and 127' }));
+  });
+}
@@ -0,0 +1,43 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { MidiParser } from './MidiParser';
+
+const cc = (controller: number, value: number) => new Uint8Array([0xb0, controller, value]);
+
+describe('MidiParser', () => {
+  it('dispatches a 14-bit pair after its LSB', () => {
+    const parser = new MidiParser('pad');
+    expect(parser.parse(cc(1, 64)).map((e) => e.type)).toEqual(['cc-message']);
+    expect(parser.parse(cc(33, 5))).toEqual([
+      { type: 'cc-message', detail: { device: 'pad', channel: 0, cc: 33, value: 5 } },
+      { type: 'cc14-message', detail: { device: 'pad', channel: 0, cc: 1, value: (64 << 7) | 5 } },
+    ]);
+  });
+
+  it('holds the MSB of a known 14-bit pair until its LSB', () => {
+    const parser = new MidiParser('pad');
+    parser.parse(cc(1, 64));
+    parser.parse(cc(33, 5));
+    expect(parser.parse(cc(1, 65))).toEqual([]);
+    expect(parser.parse(cc(33, 0))).toEqual([
+      { type: 'cc-message', detail: { device: 'pad', channel: 0, cc: 1, value: 65, highRes: true } },
+      { type: 'cc-message', detail: { device: 'pad', channel: 0, cc: 33, value: 0 } },
+      { type: 'cc14-message', detail: { device: 'pad', channel: 0, cc: 1, value: 65 << 7 } },
+    ]);
+  });
+
+  it('releases a held MSB on its own when another control follows', () => {
+    const parser = new MidiParser('pad');
+    parser.parse(cc(1, 64));
+    parser.parse(cc(33, 5));
+    parser.parse(cc(1, 70));
+    expect(parser.parse(cc(7, 100)).map((e) => [e.type, e.detail])).toEqual([
+      ['cc-message', { device: 'pad', channel: 0, cc: 1, value: 70, highRes: true }],
+      ['cc14-message', { device: 'pad', channel: 0, cc: 1, value: 70 << 7 }],
+      ['cc-message', { device: 'pad', channel: 0, cc: 7, value: 100 }],
+    ]);
+  });
+});
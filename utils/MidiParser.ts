@@ -0,0 +1,175 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type {
+  Aftertouch,
+  ClockTick,
+  ControlChange,
+  HighResControlChange,
+  NoteMessage,
+  NrpnMessage,
+  PitchBend,
+  ProgramChange,
+  TransportCommand,
+  TransportMessage,
+} from '../types';
+
+/** A parsed MIDI message, typed by the name of the event it is dispatched as. */
+export type MidiEvent =
+  | { type: 'cc-message'; detail: ControlChange }
+  | { type: 'cc14-message'; detail: HighResControlChange }
+  | { type: 'nrpn-message'; detail: NrpnMessage }
+  | { type: 'note-on'; detail: NoteMessage }
+  | { type: 'note-off'; detail: NoteMessage }
+  | { type: 'program-change'; detail: ProgramChange }
+  | { type: 'pitch-bend'; detail: PitchBend }
+  | { type: 'aftertouch'; detail: Aftertouch }
+  | { type: 'clock'; detail: ClockTick }
+  | { type: 'transport'; detail: TransportMessage };
+
+const BANK_SELECT = 0;
+const DATA_ENTRY_MSB = 6;
+const DATA_ENTRY_LSB = 38;
+const NRPN_LSB = 98;
+const NRPN_MSB = 99;
+const RPN_LSB = 100;
+const RPN_MSB = 101;
+/** Parameter number 127/127 deselects the current (N)RPN. */
+const NULL_PARAMETER = 0x3fff;
+
+const CLOCK = 0xf8;
+const TRANSPORT: Record<number, TransportCommand> = { 0xfa: 'start', 0xfb: 'continue', 0xfc: 'stop' };
+
+/** What a channel has received that later messages build on. */
+class ChannelState {
+  /** Last MSB of each controller 0-31, completed by the matching LSB. */
+  msb: (number | null)[] = new Array(32).fill(null);
+  /** Controllers 0-31 that have sent an LSB, so their MSB waits for it. */
+  highRes: boolean[] = new Array(32).fill(false);
+  /** The controller whose MSB is waiting for its LSB, if any. */
+  heldMsb: number | null = null;
+  parameterMsb = 0;
+  parameterLsb = 0;
+  /** Whether data entry currently targets an NRPN rather than an RPN or nothing. */
+  nrpnSelected = false;
+  dataMsb = 0;
+
+  get parameter() {
+    return (this.parameterMsb << 7) | this.parameterLsb;
+  }
+}
+
+/**
+ * Turns raw MIDI bytes from one input into typed events. Stateful, because
+ * 14-bit controllers and NRPNs are spread over several control changes.
+ */
+export class MidiParser {
+  private channels = Array.from({ length: 16 }, () => new ChannelState());
+
+  /** `device` is the input name reported with every message. */
+  constructor(private readonly device: string) {}
+
+  /** `time` is the message's timestamp, used to measure clock tempo. */
+  parse(data: Uint8Array, time = 0): MidiEvent[] {
+    const status = data[0];
+    if (status === CLOCK) return [{ type: 'clock', detail: { device: this.device, time } }];
+    if (status in TRANSPORT) return [{ type: 'transport', detail: { device: this.device, command: TRANSPORT[status] } }];
+    // Other system messages aren't used.
+    if (status >= 0xf0) return [];
+
+    const channel = status & 0x0f;
+    const source = { device: this.device, channel };
+    switch (status & 0xf0) {
+      case 0x80:
+        return [{ type: 'note-off', detail: { ...source, note: data[1], velocity: data[2] } }];
+      case 0x90:
+        // A note on with zero velocity is a note off.
+        return [{
+          type: data[2] === 0 ? 'note-off' : 'note-on',
+          detail: { ...source, note: data[1], velocity: data[2] },
+        }];
+      case 0xa0:
+        return [{ type: 'aftertouch', detail: { ...source, note: data[1], pressure: data[2] } }];
+      case 0xb0:
+        return this.parseControlChange(channel, data[1], data[2]);
+      case 0xc0:
+        return [{ type: 'program-change', detail: { ...source, program: data[1] } }];
+      case 0xd0:
+        return [{ type: 'aftertouch', detail: { ...source, note: null, pressure: data[1] } }];
+      case 0xe0:
+        return [{ type: 'pitch-bend', detail: { ...source, value: (data[2] << 7) | data[1] } }];
+    }
+    return [];
+  }
+
+  /**
+   * Every control change is dispatched as-is, so 7-bit learning keeps
+   * working; the ones that complete a 14-bit pair or an NRPN data entry are
+   * dispatched again as such. Once a controller has sent an LSB, its MSBs
+   * are held until the LSB arrives and dispatched with it, marked
+   * `highRes`, so listeners can skip the coarse value.
+   */
+  private parseControlChange(channel: number, cc: number, value: number): MidiEvent[] {
+    const source = { device: this.device, channel };
+    const state = this.channels[channel];
+    const events: MidiEvent[] = [];
+    // A held MSB followed by anything but its LSB stands alone, as MIDI allows.
+    if (state.heldMsb !== null && cc !== state.heldMsb + 32) {
+      const msbCc = state.heldMsb;
+      const msb = state.msb[msbCc]!;
+      state.heldMsb = null;
+      events.push(
+        { type: 'cc-message', detail: { ...source, cc: msbCc, value: msb, highRes: true } },
+        { type: 'cc14-message', detail: { ...source, cc: msbCc, value: msb << 7 } },
+      );
+    }
+    if (cc > BANK_SELECT && cc < 32 && state.highRes[cc]) {
+      state.msb[cc] = value;
+      state.heldMsb = cc;
+      return events;
+    }
+    if (cc > 32 && cc < 64 && state.heldMsb === cc - 32) {
+      state.heldMsb = null;
+      events.push({ type: 'cc-message', detail: { ...source, cc: cc - 32, value: state.msb[cc - 32]!, highRes: true } });
+    }
+    events.push({ type: 'cc-message', detail: { ...source, cc, value } });
+
+    switch (cc) {
+      case NRPN_MSB:
+      case NRPN_LSB:
+        if (cc === NRPN_MSB) state.parameterMsb = value;
+        else state.parameterLsb = value;
+        state.nrpnSelected = state.parameter !== NULL_PARAMETER;
+        break;
+      case RPN_MSB:
+      case RPN_LSB:
+        state.nrpnSelected = false;
+        break;
+      case DATA_ENTRY_MSB:
+        state.dataMsb = value;
+        // Sent as a coarse value straight away, for devices that never send the LSB.
+        if (state.nrpnSelected) {
+          events.push({ type: 'nrpn-message', detail: { ...source, parameter: state.parameter, value: value << 7 } });
+        }
+        break;
+      case DATA_ENTRY_LSB:
+        if (state.nrpnSelected) {
+          events.push({
+            type: 'nrpn-message',
+            detail: { ...source, parameter: state.parameter, value: (state.dataMsb << 7) | value },
+          });
+        }
+        break;
+      default:
+        if (cc > BANK_SELECT && cc < 32) {
+          state.msb[cc] = value;
+        } else if (cc > 32 && cc < 64 && state.msb[cc - 32] !== null) {
+          const msb = state.msb[cc - 32]!;
+          state.highRes[cc - 32] = true;
+          events.push({ type: 'cc14-message', detail: { ...source, cc: cc - 32, value: (msb << 7) | value } });
+        }
+    }
+    return events;
+  }
+}
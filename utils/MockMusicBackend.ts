@@ -0,0 +1,211 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { LiveMusicGenerationConfig, WeightedPrompt } from '@google/genai';
+import { encode } from './audio';
+import { SCALES } from './generationConfig';
+import type { MusicBackend, MusicBackendCallbacks, MusicBackendSession } from './MusicBackend';
+
+const SAMPLE_RATE = 48000;
+const CHANNELS = 2;
+const CHUNK_SECONDS = 2;
+const CHUNK_FRAMES = SAMPLE_RATE * CHUNK_SECONDS;
+/** Chunks sent immediately on play, like the server generating ahead. */
+const PREROLL_CHUNKS = 2;
+const STEPS = 16;
+const PENTATONIC = [0, 2, 4, 7, 9];
+
+type Waveform = 'sine' | 'triangle' | 'saw' | 'square';
+const WAVEFORMS: Waveform[] = ['sine', 'triangle', 'saw', 'square'];
+
+interface Voice {
+  weight: number;
+  frequency: number;
+  waveform: Waveform;
+  pattern: boolean[];
+  pan: number;
+}
+
+/** FNV-1a, so a prompt text always produces the same voice. */
+function hash(text: string) {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+/** mulberry32: a small seeded PRNG returning floats in [0, 1). */
+function random(seed: number) {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function oscillator(waveform: Waveform, phase: number) {
+  const p = phase - Math.floor(phase);
+  switch (waveform) {
+    case 'sine': return Math.sin(2 * Math.PI * p);
+    case 'triangle': return 1 - 4 * Math.abs(p - 0.5);
+    case 'saw': return 2 * p - 1;
+    case 'square': return p < 0.5 ? 1 : -1;
+  }
+}
+
+/**
+ * Renders a simple step-sequenced pattern. Each prompt becomes a voice whose
+ * pitch, waveform and rhythm are derived from its text, so the same prompts
+ * and config always render the same audio.
+ */
+class MockSynth {
+  /** Absolute frame position, which keeps rhythms continuous across chunks. */
+  position = 0;
+
+  render(prompts: WeightedPrompt[], config: LiveMusicGenerationConfig): Int16Array {
+    const bpm = config.bpm ?? 120;
+    const framesPerStep = (SAMPLE_RATE * 60) / bpm / 4;
+    const scaleIndex = SCALES.findIndex((s) => s.value === config.scale);
+    const root = 220 * 2 ** (Math.max(0, scaleIndex - 1) / 12);
+    const density = config.density ?? 0.5;
+    const brightness = config.brightness ?? 0.5;
+    const voices = this.voices(prompts, root, density, config.seed ?? 0);
+
+    const out = new Int16Array(CHUNK_FRAMES * CHANNELS);
+    for (let i = 0; i < CHUNK_FRAMES; i++) {
+      const t = this.position + i;
+      const step = Math.floor(t / framesPerStep) % STEPS;
+      const stepPhase = (t % framesPerStep) / framesPerStep;
+      let left = 0;
+      let right = 0;
+
+      for (const voice of voices) {
+        if (!voice.pattern[step]) continue;
+        const env = Math.exp(-stepPhase * 4);
+        const phase = (voice.frequency * t) / SAMPLE_RATE;
+        const dark = oscillator('sine', phase);
+        const bright = oscillator(voice.waveform, phase);
+        const sample = (dark + (bright - dark) * brightness) * env * voice.weight;
+        left += sample * (1 - voice.pan) * 0.5;
+        right += sample * (1 + voice.pan) * 0.5;
+      }
+
+      if (!config.muteDrums && step % 4 === 0) {
+        const time = (stepPhase * framesPerStep) / SAMPLE_RATE;
+        const kick = Math.sin(2 * Math.PI * (50 * time + 60 * (1 - Math.exp(-time * 30)))) * Math.exp(-time * 12);
+        left += kick * 0.8;
+        right += kick * 0.8;
+      }
+
+      if (!config.muteBass && step % 4 === 2) {
+        const bass = oscillator('saw', ((root / 4) * t) / SAMPLE_RATE) * Math.exp(-stepPhase * 2) * 0.4;
+        left += bass;
+        right += bass;
+      }
+
+      out[i * 2] = Math.tanh(left * 0.6) * 0x7fff;
+      out[i * 2 + 1] = Math.tanh(right * 0.6) * 0x7fff;
+    }
+    this.position += CHUNK_FRAMES;
+    return out;
+  }
+
+  private voices(prompts: WeightedPrompt[], root: number, density: number, seed: number): Voice[] {
+    const total = prompts.reduce((sum, p) => sum + (p.weight ?? 0), 0) || 1;
+    return prompts.map((p) => {
+      const rand = random(hash(p.text ?? '') ^ seed);
+      const degree = PENTATONIC[Math.floor(rand() * PENTATONIC.length)];
+      const octave = Math.floor(rand() * 3) - 1;
+      return {
+        weight: (p.weight ?? 0) / total,
+        frequency: root * 2 ** (degree / 12 + octave),
+        waveform: WAVEFORMS[Math.floor(rand() * WAVEFORMS.length)],
+        pattern: Array.from({ length: STEPS }, () => rand() < 0.15 + density * 0.6),
+        pan: rand() * 1.2 - 0.6,
+      };
+    });
+  }
+}
+
+class MockMusicSession implements MusicBackendSession {
+  private synth = new MockSynth();
+  private prompts: WeightedPrompt[] = [];
+  private config: LiveMusicGenerationConfig = {};
+  private timer: number | null = null;
+  private closed = false;
+
+  constructor(private readonly callbacks: MusicBackendCallbacks) {}
+
+  async setWeightedPrompts(params: { weightedPrompts: WeightedPrompt[] }) {
+    this.prompts = params.weightedPrompts;
+  }
+
+  async setMusicGenerationConfig(params: { musicGenerationConfig: LiveMusicGenerationConfig }) {
+    this.config = params.musicGenerationConfig ?? {};
+  }
+
+  private sendChunk() {
+    const pcm = this.synth.render(this.prompts, this.config);
+    this.callbacks.onmessage({
+      serverContent: {
+        audioChunks: [{
+          data: encode(new Uint8Array(pcm.buffer)),
+          mimeType: `audio/l16;rate=${SAMPLE_RATE};channels=${CHANNELS}`,
+        }],
+      },
+    });
+  }
+
+  play() {
+    if (this.closed || this.timer !== null) return;
+    for (let i = 0; i < PREROLL_CHUNKS; i++) this.sendChunk();
+    this.timer = window.setInterval(() => this.sendChunk(), CHUNK_SECONDS * 1000);
+  }
+
+  pause() {
+    if (this.timer === null) return;
+    window.clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  stop() {
+    this.pause();
+    this.synth.position = 0;
+  }
+
+  resetContext() {
+    this.synth.position = 0;
+  }
+
+  close() {
+    if (this.closed) return;
+    this.pause();
+    this.closed = true;
+    this.callbacks.onclose?.(new Event('close'));
+  }
+
+  /** Called once connected, mirroring the server's setup handshake. */
+  open() {
+    this.callbacks.onmessage({ setupComplete: {} });
+  }
+}
+
+/**
+ * An offline backend that synthesizes deterministic PCM locally, so the app
+ * can be developed and tested without an API key or network.
+ */
+export class MockMusicBackend implements MusicBackend {
+  readonly name = 'mock';
+
+  async connect(callbacks: MusicBackendCallbacks): Promise<MusicBackendSession> {
+    const session = new MockMusicSession(callbacks);
+    setTimeout(() => session.open(), 0);
+    return session;
+  }
+}
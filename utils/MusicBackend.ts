@@ -0,0 +1,31 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { LiveMusicGenerationConfig, LiveMusicServerMessage, WeightedPrompt } from '@google/genai';
+
+/** The parts of a server message that LiveMusicHelper reads. */
+export type MusicBackendMessage = Pick<LiveMusicServerMessage, 'setupComplete' | 'serverContent' | 'filteredPrompt'>;
+
+export interface MusicBackendCallbacks {
+  onmessage: (e: MusicBackendMessage) => void;
+  onerror?: ((e: Event) => void) | null;
+  onclose?: ((e: Event) => void) | null;
+}
+
+/** A connected generation session, shaped like the Lyria LiveMusicSession. */
+export interface MusicBackendSession {
+  setWeightedPrompts(params: { weightedPrompts: WeightedPrompt[] }): Promise<void>;
+  setMusicGenerationConfig(params: { musicGenerationConfig: LiveMusicGenerationConfig }): Promise<void>;
+  play(): void;
+  pause(): void;
+  stop(): void;
+  resetContext(): void;
+  close(): void;
+}
+
+/** Something LiveMusicHelper can open music generation sessions on. */
+export interface MusicBackend {
+  readonly name: string;
+  connect(callbacks: MusicBackendCallbacks): Promise<MusicBackendSession>;
+}
@@ -0,0 +1,88 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import workletUrl from './pcmPlayer.worklet.ts?worker&url';
+import type { DecodedChunk, DecoderRequest, PlayerCommand, PlayerReport } from './pcmMessages';
+
+/**
+ * Plays base64 PCM chunks without decoding them on the main thread. A worker
+ * decodes and deinterleaves each chunk and hands it directly to an
+ * AudioWorklet ring buffer; the main thread only forwards the chunks and
+ * listens for reports.
+ *
+ * Events: 'decoded' (Float32Array[] per chunk), 'started', 'underrun' and
+ * 'buffered' (seconds of audio in the ring buffer).
+ */
+export class PcmPlayer extends EventTarget {
+  /** Counts clears, so chunks queued before one are dropped; see PlayerCommand. */
+  private epoch = 0;
+
+  private constructor(
+    public readonly node: AudioWorkletNode,
+    private readonly worker: Worker,
+    private readonly numChannels: number,
+  ) {
+    super();
+    worker.onmessage = (e: MessageEvent<DecodedChunk>) => {
+      if (e.data.epoch !== this.epoch) return;
+      this.dispatchEvent(new CustomEvent<Float32Array[]>('decoded', { detail: e.data.channels }));
+    };
+    node.port.onmessage = (e: MessageEvent<PlayerReport>) => this.handleReport(e.data);
+  }
+
+  static async create(context: AudioContext, numChannels: number): Promise<PcmPlayer> {
+    await context.audioWorklet.addModule(workletUrl);
+    const node = new AudioWorkletNode(context, 'pcm-player', {
+      numberOfInputs: 0,
+      outputChannelCount: [numChannels],
+    });
+    const worker = new Worker(new URL('./pcmDecoder.worker.ts', import.meta.url), { type: 'module' });
+
+    // Decoded audio goes from the worker to the worklet without a main-thread hop.
+    const channel = new MessageChannel();
+    const decoderPort: PlayerCommand = { type: 'decoder-port', port: channel.port1 };
+    node.port.postMessage(decoderPort, [channel.port1]);
+    const playerPort: DecoderRequest = { type: 'player-port', port: channel.port2 };
+    worker.postMessage(playerPort, [channel.port2]);
+
+    return new PcmPlayer(node, worker, numChannels);
+  }
+
+  private handleReport(report: PlayerReport) {
+    switch (report.type) {
+      case 'started':
+      case 'underrun':
+        this.dispatchEvent(new Event(report.type));
+        break;
+      case 'buffered':
+        this.dispatchEvent(new CustomEvent<number>('buffered', {
+          detail: report.frames / this.node.context.sampleRate,
+        }));
+        break;
+    }
+  }
+
+  /** Queues a base64 chunk of interleaved 16-bit PCM for decoding and playback. */
+  push(data: string) {
+    const request: DecoderRequest = { type: 'decode', data, numChannels: this.numChannels, epoch: this.epoch };
+    this.worker.postMessage(request);
+  }
+
+  /** Sets how much audio is buffered before playback starts or resumes. */
+  setTargetLatency(seconds: number) {
+    this.send({ type: 'target-latency', frames: Math.round(seconds * this.node.context.sampleRate) });
+  }
+
+  /**
+   * Drops buffered audio with a short fade, along with chunks pushed but not
+   * yet decoded; playback restarts once rebuffered.
+   */
+  clear() {
+    this.send({ type: 'clear', epoch: ++this.epoch });
+  }
+
+  private send(command: PlayerCommand) {
+    this.node.port.postMessage(command);
+  }
+}
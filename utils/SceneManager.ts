@@ -0,0 +1,205 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Prompt, Scene } from '../types';
+import { AppError, errorMessage } from './errors';
+import { toPrompt, validatePrompts } from './validation';
+
+const STORAGE_KEY = 'prompt-dj-midi:scenes';
+
+/**
+ * Interval between crossfade steps. Kept above the 200 ms throttle in
+ * LiveMusicHelper.setWeightedPrompts so each step is sent as it happens.
+ */
+const CROSSFADE_STEP_MS = 250;
+
+/** Suffix for the prompt that fades out when a scene changes a prompt's text. */
+const OUTGOING_SUFFIX = '~out';
+
+/** The maps produced at each step of a crossfade. */
+export interface CrossfadeStep {
+  /** What the grid shows: one entry per prompt of the target scene. */
+  display: Map<string, Prompt>;
+  /** What the session plays, including outgoing prompts whose text changed. */
+  weighted: Map<string, Prompt>;
+}
+
+/** Stores named scenes and crossfades the prompt grid between them. */
+export class SceneManager extends EventTarget {
+  private scenes: Scene[] = [];
+  private crossfadeTimer: number | null = null;
+
+  /** Tempo used to convert crossfade beats to time. */
+  bpm = 120;
+  /** Crossfade length in beats; 0 jumps straight to the scene. */
+  crossfadeBeats = 4;
+
+  constructor(private readonly storage: Storage = window.localStorage) {
+    super();
+  }
+
+  /**
+   * Loads the stored scenes. Called once 'error' is listened for: unreadable
+   * scenes, like failed saves, are reported as an AppError.
+   */
+  restore() {
+    this.scenes = this.load();
+    this.dispatchEvent(new CustomEvent<readonly Scene[]>('scenes-changed', { detail: this.scenes }));
+  }
+
+  private dispatchError(error: AppError) {
+    this.dispatchEvent(new CustomEvent<AppError>('error', { detail: error }));
+  }
+
+  get all(): readonly Scene[] {
+    return this.scenes;
+  }
+
+  get crossfading() {
+    return this.crossfadeTimer !== null;
+  }
+
+  private load(): Scene[] {
+    try {
+      const stored = JSON.parse(this.storage.getItem(STORAGE_KEY) ?? '[]');
+      if (!Array.isArray(stored)) return [];
+      return stored
+        .filter((s) => typeof s?.name === 'string' && Array.isArray(s.prompts))
+        // Scenes saved before prompts had a MIDI channel default to channel 0;
+        // toPrompt fills in fields added since.
+        .map((s) => ({ ...s, note: s.note ?? null, prompts: s.prompts.map((p: Prompt) => ({ channel: 0, ...p })) }))
+        .filter((s) => validatePrompts(s.prompts, 'prompts').length === 0)
+        .map((s) => ({ ...s, prompts: s.prompts.map(toPrompt) }));
+    } catch (e) {
+      this.dispatchError(new AppError('storage-unreadable', 'storage', `Discarded the saved scenes: ${errorMessage(e)}`, {
+        severity: 'warning',
+        subject: 'scenes',
+        cause: e,
+      }));
+      return [];
+    }
+  }
+
+  private persist() {
+    try {
+      this.storage.setItem(STORAGE_KEY, JSON.stringify(this.scenes));
+    } catch (e) {
+      this.dispatchError(new AppError('storage-failed', 'storage', `Unable to save the scenes: ${errorMessage(e)}`, {
+        severity: 'warning',
+        subject: 'scenes',
+        cause: e,
+      }));
+    }
+    this.dispatchEvent(new CustomEvent<readonly Scene[]>('scenes-changed', { detail: this.scenes }));
+  }
+
+  /** Saves the prompts as a scene, replacing any scene with the same name. */
+  save(name: string, prompts: Map<string, Prompt>) {
+    const existing = this.scenes.find((s) => s.name === name);
+    const scene: Scene = {
+      name,
+      prompts: [...prompts.values()].map((p) => ({ ...p })),
+      note: existing?.note ?? null,
+    };
+    this.scenes = existing
+      ? this.scenes.map((s) => (s === existing ? scene : s))
+      : [...this.scenes, scene];
+    this.persist();
+    return scene;
+  }
+
+  remove(name: string) {
+    this.scenes = this.scenes.filter((s) => s.name !== name);
+    this.persist();
+  }
+
+  /** Assigns a recall note to a scene, taking it from any other scene. */
+  setNote(name: string, note: number | null) {
+    this.scenes = this.scenes.map((s) => {
+      if (s.name === name) return { ...s, note };
+      if (note !== null && s.note === note) return { ...s, note: null };
+      return s;
+    });
+    this.persist();
+  }
+
+  get(name: string) {
+    return this.scenes.find((s) => s.name === name);
+  }
+
+  at(index: number): Scene | undefined {
+    return this.scenes[index];
+  }
+
+  findByNote(note: number) {
+    return this.scenes.find((s) => s.note === note);
+  }
+
+  /**
+   * Blends two prompt maps. Prompts keep their weight curve when the text is
+   * unchanged; otherwise the old text fades out as a separate prompt while
+   * the new text fades in.
+   */
+  static interpolate(from: Map<string, Prompt>, to: Prompt[], t: number): CrossfadeStep {
+    const display = new Map<string, Prompt>();
+    const weighted = new Map<string, Prompt>();
+
+    for (const target of to) {
+      const source = from.get(target.promptId);
+      let prompt: Prompt;
+      if (source && source.text === target.text) {
+        prompt = { ...target, weight: source.weight + (target.weight - source.weight) * t };
+      } else {
+        prompt = { ...target, weight: target.weight * t };
+        if (source && t < 1) {
+          const promptId = `${source.promptId}${OUTGOING_SUFFIX}`;
+          weighted.set(promptId, { ...source, promptId, weight: source.weight * (1 - t) });
+        }
+      }
+      display.set(prompt.promptId, prompt);
+      weighted.set(prompt.promptId, prompt);
+    }
+
+    // Prompts missing from the target scene fade out entirely.
+    if (t < 1) {
+      for (const source of from.values()) {
+        if (display.has(source.promptId)) continue;
+        weighted.set(source.promptId, { ...source, weight: source.weight * (1 - t) });
+      }
+    }
+
+    return { display, weighted };
+  }
+
+  /**
+   * Crossfades from the current prompts into a scene over `crossfadeBeats`,
+   * calling `onStep` with each intermediate map. Any running crossfade is
+   * cancelled first.
+   */
+  crossfade(from: Map<string, Prompt>, scene: Scene, onStep: (step: CrossfadeStep) => void) {
+    this.cancelCrossfade();
+
+    const start = new Map([...from].map(([id, p]) => [id, { ...p }]));
+    const durationMs = (this.crossfadeBeats * 60_000) / this.bpm;
+    if (durationMs <= 0) {
+      onStep(SceneManager.interpolate(start, scene.prompts, 1));
+      return;
+    }
+
+    const startTime = performance.now();
+    const step = () => {
+      const t = Math.min(1, (performance.now() - startTime) / durationMs);
+      if (t >= 1) this.cancelCrossfade();
+      onStep(SceneManager.interpolate(start, scene.prompts, t));
+    };
+    this.crossfadeTimer = window.setInterval(step, CROSSFADE_STEP_MS);
+    step();
+  }
+
+  cancelCrossfade() {
+    if (this.crossfadeTimer === null) return;
+    window.clearInterval(this.crossfadeTimer);
+    this.crossfadeTimer = null;
+  }
+}
@@ -0,0 +1,233 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { LiveMusicGenerationConfig } from '@google/genai';
+import type {
+  ConfigMapping,
+  FeedbackScaling,
+  FxMapping,
+  FxSettings,
+  MasterMapping,
+  MasterSettings,
+  Prompt,
+  UiState,
+} from '../types';
+import {
+  DEFAULT_GENERATION_CONFIG,
+  toConfigMappings,
+  validateConfigMappings,
+  validateGenerationConfig,
+} from './generationConfig';
+import { AppError, errorMessage } from './errors';
+import { DEFAULT_FX_SETTINGS, toFxMappings, toFxSettings, validateFxMappings, validateFxSettings } from './fxSettings';
+import { DEFAULT_KEYMAP, toKeymap, validateKeymap } from './keymap';
+import {
+  DEFAULT_MASTER_SETTINGS,
+  toMasterMappings,
+  toMasterSettings,
+  validateMasterMappings,
+  validateMasterSettings,
+} from './masterSettings';
+import { validateFeedbackScaling } from './MidiFeedback';
+import { DEFAULT_GRID_COLUMNS, isGridColumns } from './promptGrid';
+import { formatValidationErrors, isObject, toPrompt, validatePrompts } from './validation';
+
+const STORAGE_KEY = 'prompt-dj-midi:session';
+
+/** Bump this and add a migration whenever the stored shape changes. */
+export const SESSION_VERSION = 10;
+
+/** Delay before a change is written, so knob sweeps cause a single write. */
+const SAVE_DELAY_MS = 500;
+
+/** Everything restored on reload. */
+export interface SessionState extends UiState {
+  prompts: Prompt[];
+  generationConfig: LiveMusicGenerationConfig;
+  configMappings: ConfigMapping[];
+  master: MasterSettings;
+  masterMappings: MasterMapping[];
+  fx: FxSettings;
+  fxMappings: FxMapping[];
+}
+
+type StoredSession = Record<string, unknown> & { version: number };
+
+/**
+ * Upgrades stored data from the version it is keyed by to the next one.
+ * Migrations run in order until the data reaches SESSION_VERSION.
+ */
+const MIGRATIONS: Record<number, (data: StoredSession) => StoredSession> = {
+  // Version 2 added the generation config panel and its MIDI mappings.
+  1: (data) => ({
+    ...data,
+    version: 2,
+    showConfig: false,
+    generationConfig: DEFAULT_GENERATION_CONFIG,
+    configMappings: [],
+  }),
+  // Version 3 added MIDI output feedback.
+  2: (data) => ({
+    ...data,
+    version: 3,
+    midiFeedback: false,
+    midiOutputId: null,
+    feedbackScaling: {},
+  }),
+  // Version 4 allowed several MIDI inputs to be active at once.
+  3: ({ midiInputId, ...data }) => ({
+    ...data,
+    version: 4,
+    midiInputIds: typeof midiInputId === 'string' ? [midiInputId] : [],
+  }),
+  // Version 5 added MIDI clock sync.
+  4: (data) => ({ ...data, version: 5, clockIn: false, clockOut: false }),
+  // Version 6 added the configurable keymap.
+  5: (data) => ({ ...data, version: 6, keymap: DEFAULT_KEYMAP }),
+  // Version 7 made the grid's size configurable.
+  6: (data) => ({ ...data, version: 7, gridColumns: DEFAULT_GRID_COLUMNS }),
+  // Version 8 added the master chain and its MIDI mappings.
+  7: (data) => ({
+    ...data,
+    version: 8,
+    showMaster: false,
+    master: DEFAULT_MASTER_SETTINGS,
+    masterMappings: [],
+  }),
+  // Version 9 added the FX rack and its MIDI mappings.
+  8: (data) => ({
+    ...data,
+    version: 9,
+    showFx: false,
+    fx: DEFAULT_FX_SETTINGS,
+    fxMappings: [],
+  }),
+  // Version 10 added output device selection and the cue session.
+  9: (data) => ({
+    ...data,
+    version: 10,
+    showOutput: false,
+    outputId: null,
+    cueOutputId: null,
+    cueVolume: 1,
+  }),
+};
+
+/**
+ * Saves and restores the session in localStorage. A stored session that
+ * can't be read, and a save that fails, are reported as 'error' events.
+ */
+export class SessionStore extends EventTarget {
+  private saveTimer: number | null = null;
+
+  constructor(private readonly storage: Storage = window.localStorage) {
+    super();
+  }
+
+  private dispatchError(error: AppError) {
+    this.dispatchEvent(new CustomEvent<AppError>('error', { detail: error }));
+  }
+
+  /** Returns the stored session, or null if there is none or it is unusable. */
+  load(): SessionState | null {
+    const raw = this.storage.getItem(STORAGE_KEY);
+    if (raw === null) return null;
+    try {
+      return this.parse(JSON.parse(raw));
+    } catch (e) {
+      this.clear();
+      this.dispatchError(new AppError('storage-unreadable', 'storage', `Discarded the saved session: ${errorMessage(e)}`, {
+        severity: 'warning',
+        subject: 'session',
+        cause: e,
+      }));
+      return null;
+    }
+  }
+
+  private parse(data: unknown): SessionState {
+    if (!isObject(data) || typeof data.version !== 'number') {
+      throw new Error('missing version');
+    }
+    let session = data as StoredSession;
+    if (session.version > SESSION_VERSION) {
+      throw new Error(`version ${session.version} is newer than ${SESSION_VERSION}`);
+    }
+    while (session.version < SESSION_VERSION) {
+      const migrate = MIGRATIONS[session.version];
+      if (!migrate) throw new Error(`no migration from version ${session.version}`);
+      session = migrate(session);
+    }
+
+    const errors = [
+      ...validatePrompts(session.prompts, 'prompts'),
+      ...validateGenerationConfig(session.generationConfig, 'generationConfig'),
+      ...validateConfigMappings(session.configMappings, 'configMappings'),
+      ...validateFeedbackScaling(session.feedbackScaling, 'feedbackScaling'),
+      ...validateKeymap(session.keymap, 'keymap'),
+      ...validateMasterSettings(session.master, 'master'),
+      ...validateMasterMappings(session.masterMappings, 'masterMappings'),
+      ...validateFxSettings(session.fx, 'fx'),
+      ...validateFxMappings(session.fxMappings, 'fxMappings'),
+    ];
+    if (errors.length > 0) throw new Error(formatValidationErrors(errors));
+
+    return {
+      prompts: (session.prompts as Record<string, unknown>[]).map(toPrompt),
+      generationConfig: session.generationConfig as LiveMusicGenerationConfig,
+      configMappings: toConfigMappings(session.configMappings as Record<string, unknown>[]),
+      master: toMasterSettings(session.master as Record<string, unknown>),
+      masterMappings: toMasterMappings(session.masterMappings as Record<string, unknown>[]),
+      fx: toFxSettings(session.fx as Record<string, unknown>),
+      fxMappings: toFxMappings(session.fxMappings as Record<string, unknown>[]),
+      midiInputIds: Array.isArray(session.midiInputIds)
+        ? session.midiInputIds.filter((id): id is string => typeof id === 'string')
+        : [],
+      showMidi: session.showMidi === true,
+      showConfig: session.showConfig === true,
+      showMaster: session.showMaster === true,
+      showFx: session.showFx === true,
+      crossfadeBeats: typeof session.crossfadeBeats === 'number' ? session.crossfadeBeats : 4,
+      midiFeedback: session.midiFeedback === true,
+      midiOutputId: typeof session.midiOutputId === 'string' ? session.midiOutputId : null,
+      feedbackScaling: session.feedbackScaling as Record<string, FeedbackScaling>,
+      clockIn: session.clockIn === true,
+      clockOut: session.clockOut === true,
+      keymap: toKeymap(session.keymap as Record<string, unknown>),
+      gridColumns: isGridColumns(session.gridColumns) ? session.gridColumns : DEFAULT_GRID_COLUMNS,
+      showOutput: session.showOutput === true,
+      outputId: typeof session.outputId === 'string' ? session.outputId : null,
+      cueOutputId: typeof session.cueOutputId === 'string' ? session.cueOutputId : null,
+      cueVolume: typeof session.cueVolume === 'number' && session.cueVolume >= 0 && session.cueVolume <= 1
+        ? session.cueVolume
+        : 1,
+    };
+  }
+
+  /** Writes the session after a short delay, coalescing rapid changes. */
+  scheduleSave(collect: () => SessionState) {
+    if (this.saveTimer !== null) window.clearTimeout(this.saveTimer);
+    this.saveTimer = window.setTimeout(() => {
+      this.saveTimer = null;
+      this.save(collect());
+    }, SAVE_DELAY_MS);
+  }
+
+  save(state: SessionState) {
+    const stored = { version: SESSION_VERSION, ...state };
+    try {
+      this.storage.setItem(STORAGE_KEY, JSON.stringify(stored));
+    } catch (e) {
+      this.dispatchError(new AppError('storage-failed', 'storage', `Unable to save the session: ${errorMessage(e)}`, {
+        severity: 'warning',
+        subject: 'session',
+        cause: e,
+      }));
+    }
+  }
+
+  clear() {
+    this.storage.removeItem(STORAGE_KEY);
+  }
+}
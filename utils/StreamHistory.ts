@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** Longest the playhead is extrapolated past a report, matching the player's report interval. */
+const MAX_EXTRAPOLATION_SECONDS = 0.25;
+
+/**
+ * Keeps the last few seconds of decoded audio and tracks which of it is
+ * being heard. Decoded chunks arrive ahead of playback by whatever the
+ * player has buffered, so the playhead is the decoded total minus the last
+ * buffered amount reported, moved on by the time since the report.
+ */
+export class StreamHistory {
+  private chunks: Float32Array[][] = [];
+  /** Frames dropped off the front, i.e. the position of the first chunk. */
+  private dropped = 0;
+  private total = 0;
+  private report: { playhead: number; time: number } | null = null;
+
+  constructor(
+    private readonly sampleRate: number,
+    private readonly maxSeconds: number,
+  ) {}
+
+  push(channels: Float32Array[]) {
+    if (channels.length === 0 || channels[0].length === 0) return;
+    this.chunks.push(channels);
+    this.total += channels[0].length;
+    const maxFrames = this.maxSeconds * this.sampleRate;
+    while (this.chunks.length > 1 && this.total - this.dropped - this.chunks[0][0].length >= maxFrames) {
+      this.dropped += this.chunks.shift()![0].length;
+    }
+  }
+
+  /** Records that `seconds` of audio were waiting in the player at `time` on the audio clock. */
+  setBuffered(seconds: number, time: number) {
+    this.report = { playhead: this.total - Math.round(seconds * this.sampleRate), time };
+  }
+
+  reset() {
+    this.chunks = [];
+    this.dropped = 0;
+    this.total = 0;
+    this.report = null;
+  }
+
+  /** Position of the frame being heard at `time`, on the same scale as the decoded total. */
+  playhead(time: number) {
+    if (!this.report) return this.total;
+    const elapsed = Math.min(MAX_EXTRAPOLATION_SECONDS, Math.max(0, time - this.report.time));
+    return Math.min(this.total, this.report.playhead + Math.round(elapsed * this.sampleRate));
+  }
+
+  /**
+   * Copies `seconds` of audio starting `offset` seconds from the playhead;
+   * negative offsets reach back into what was heard. Anything outside the
+   * history reads as silence.
+   */
+  read(offset: number, seconds: number, time: number): Float32Array[] {
+    const start = this.playhead(time) + Math.round(offset * this.sampleRate);
+    const length = Math.max(1, Math.round(seconds * this.sampleRate));
+    const numChannels = this.chunks[0]?.length ?? 2;
+    const out = Array.from({ length: numChannels }, () => new Float32Array(length));
+    let position = this.dropped;
+    for (const chunk of this.chunks) {
+      const chunkLength = chunk[0].length;
+      const from = Math.max(start, position);
+      const to = Math.min(start + length, position + chunkLength);
+      if (from < to) {
+        for (let c = 0; c < numChannels; c++) {
+          out[c].set(chunk[Math.min(c, chunk.length - 1)].subarray(from - position, to - position), from - start);
+        }
+      }
+      position += chunkLength;
+    }
+    return out;
+  }
+}
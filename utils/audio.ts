@@ -3,7 +3,7 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import {Blob} from '@google/genai';
+import type {Blob} from '@google/genai';
 
 function encode(bytes: Uint8Array) {
   let binary = '';
@@ -38,37 +38,29 @@ function createBlob(data: Float32Array): Blob {
   };
 }
 
-async function decodeAudioData(
-  data: Uint8Array,
-  ctx: AudioContext,
-  sampleRate: number,
-  numChannels: number,
-): Promise<AudioBuffer> {
-  const buffer = ctx.createBuffer(
-    numChannels,
-    data.length / 2 / numChannels,
-    sampleRate,
-  );
-
-  const dataInt16 = new Int16Array(data.buffer);
-  const l = dataInt16.length;
-  const dataFloat32 = new Float32Array(l);
-  for (let i = 0; i < l; i++) {
-    dataFloat32[i] = dataInt16[i] / 32768.0;
-  }
-  // Extract interleaved channels
-  if (numChannels === 0) {
-    buffer.copyToChannel(dataFloat32, 0);
-  } else {
-    for (let i = 0; i < numChannels; i++) {
-      const channel = dataFloat32.filter(
-        (_, index) => index % numChannels === i,
-      );
-      buffer.copyToChannel(channel, i);
+/**
+ * Converts interleaved 16-bit PCM to one Float32Array per channel. Pure, so it
+ * can run in the decoder worker.
+ */
+function decodePcm16(data: Uint8Array, numChannels: number): Float32Array[] {
+  const dataInt16 = new Int16Array(data.buffer, data.byteOffset, data.byteLength >> 1);
+  const channelCount = Math.max(1, numChannels);
+  const frames = Math.floor(dataInt16.length / channelCount);
+  const channels: Float32Array[] = [];
+  for (let c = 0; c < channelCount; c++) {
+    const channel = new Float32Array(frames);
+    for (let i = 0; i < frames; i++) {
+      channel[i] = dataInt16[i * channelCount + c] / 32768.0;
     }
+    channels.push(channel);
   }
+  return channels;
+}
 
-  return buffer;
+/** Number of bytes a base64 string decodes to, without decoding it. */
+function decodedLength(base64: string) {
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  return Math.floor((base64.length * 3) / 4) - padding;
 }
 
-export {createBlob, decode, decodeAudioData, encode};
+export {createBlob, decode, decodedLength, decodePcm16, encode};
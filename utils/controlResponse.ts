@@ -0,0 +1,115 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ControlResponse, EncoderMode, ResponseCurve } from '../types';
+
+export const DEFAULT_CONTROL_RESPONSE: ControlResponse = {
+  curve: 'linear',
+  min: 0,
+  max: 2,
+  mode: 'absolute',
+  softTakeover: false,
+};
+
+export const RESPONSE_CURVES: ResponseCurve[] = ['linear', 'log', 'exp'];
+export const ENCODER_MODES: EncoderMode[] = ['absolute', 'relative-twos', 'relative-offset', 'relative-signed'];
+
+/** Steepness of the log and exp curves. */
+const CURVE_BASE = 10;
+
+/** Change in position per encoder step, so a full turn covers the range. */
+const ENCODER_STEP = 1 / 127;
+
+/** How close an out-of-sync control must come to the weight to pick it up. */
+const PICKUP_TOLERANCE = 2 / 127;
+
+/** Shapes a position in 0-1. Log rises quickly at first, exp slowly. */
+function applyCurve(curve: ResponseCurve, x: number) {
+  switch (curve) {
+    case 'linear': return x;
+    case 'log': return Math.log1p((CURVE_BASE - 1) * x) / Math.log(CURVE_BASE);
+    case 'exp': return (CURVE_BASE ** x - 1) / (CURVE_BASE - 1);
+  }
+}
+
+function invertCurve(curve: ResponseCurve, y: number) {
+  switch (curve) {
+    case 'linear': return y;
+    case 'log': return (CURVE_BASE ** y - 1) / (CURVE_BASE - 1);
+    case 'exp': return Math.log1p((CURVE_BASE - 1) * y) / Math.log(CURVE_BASE);
+  }
+}
+
+const clamp01 = (x: number) => Math.min(1, Math.max(0, x));
+
+/** The weight for a control position in 0-1. */
+export function positionToWeight(response: ControlResponse, x: number) {
+  return response.min + applyCurve(response.curve, clamp01(x)) * (response.max - response.min);
+}
+
+/** Where the control would sit for a weight; weights outside the range clamp. */
+export function weightToPosition(response: ControlResponse, weight: number) {
+  const span = response.max - response.min;
+  if (span === 0) return 0;
+  return invertCurve(response.curve, clamp01((weight - response.min) / span));
+}
+
+/** Decodes a relative encoder's CC value into a signed number of steps. */
+export function relativeSteps(mode: EncoderMode, value: number) {
+  switch (mode) {
+    case 'absolute': return 0;
+    // 1 is +1, 127 is -1.
+    case 'relative-twos': return value < 64 ? value : value - 128;
+    // 65 is +1, 63 is -1.
+    case 'relative-offset': return value - 64;
+    // 1 is +1, 65 is -1.
+    case 'relative-signed': return value & 0x40 ? -(value & 0x3f) : value;
+  }
+}
+
+/**
+ * Turns control changes into weights for one prompt. Tracks the last
+ * hardware position so soft takeover can tell when an out-of-sync control
+ * crosses the current weight.
+ */
+export class ControlMapper {
+  private lastPosition: number | null = null;
+  /** The weight this mapper last produced; any other weight means it was changed elsewhere. */
+  private lastWeight: number | null = null;
+
+  /** Whether the control is being ignored until it reaches the weight. */
+  waitingForPickup = false;
+
+  /**
+   * Returns the new weight for an absolute position in 0-1, or null while
+   * soft takeover is waiting for the control to reach `weight`.
+   */
+  absolute(response: ControlResponse, x: number, weight: number): number | null {
+    const previous = this.lastPosition;
+    this.lastPosition = x;
+    if (response.softTakeover && weight !== this.lastWeight) {
+      const current = weightToPosition(response, weight);
+      const crossed = previous !== null && (previous - current) * (x - current) <= 0;
+      if (!crossed && Math.abs(x - current) > PICKUP_TOLERANCE) {
+        this.waitingForPickup = true;
+        return null;
+      }
+    }
+    this.waitingForPickup = false;
+    return this.produce(positionToWeight(response, x));
+  }
+
+  /** Returns the new weight after a relative encoder message. */
+  relative(response: ControlResponse, value: number, weight: number): number {
+    const steps = relativeSteps(response.mode, value);
+    const x = weightToPosition(response, weight) + steps * ENCODER_STEP;
+    this.waitingForPickup = false;
+    return this.produce(positionToWeight(response, x));
+  }
+
+  private produce(weight: number) {
+    this.lastWeight = weight;
+    return weight;
+  }
+}
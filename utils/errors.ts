@@ -0,0 +1,76 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type Severity = 'info' | 'warning' | 'error';
+
+/** The module an error came from, shown in the notification log. */
+export type ErrorSource = 'session' | 'cue' | 'playback' | 'midi' | 'profile' | 'take' | 'output' | 'storage';
+
+export type ErrorCode =
+  | 'connect-failed'
+  | 'connection-lost'
+  | 'reconnecting'
+  | 'reconnect-failed'
+  | 'no-active-prompts'
+  | 'request-failed'
+  | 'player-failed'
+  | 'prompt-filtered'
+  | 'midi-unsupported'
+  | 'midi-denied'
+  | 'midi-disconnected'
+  | 'output-unsupported'
+  | 'output-failed'
+  | 'invalid-file'
+  | 'storage-unreadable'
+  | 'storage-failed';
+
+/** Something the user can do about an error, offered as a button on its notification. */
+export interface ErrorAction {
+  label: string;
+  action: 'reconnect' | 'grant-midi' | 'retry-prompt';
+  /** E.g. the prompt text to retry. */
+  detail?: string;
+  /** Set when the action is for the cue session rather than the main one. */
+  cue?: boolean;
+}
+
+export interface AppErrorOptions {
+  severity?: Severity;
+  actions?: ErrorAction[];
+  /** What the error is about, e.g. the filtered prompt's text, when several can be on screen at once. */
+  subject?: string;
+  cause?: unknown;
+}
+
+/**
+ * An error or notice to show the user. Modules dispatch these as the detail
+ * of an 'error' event, and the notification center shows and logs them.
+ */
+export class AppError extends Error {
+  readonly severity: Severity;
+  readonly actions: ErrorAction[];
+  readonly subject: string | null;
+
+  constructor(
+    readonly code: ErrorCode,
+    readonly source: ErrorSource,
+    message: string,
+    { severity = 'error', actions = [], subject, cause }: AppErrorOptions = {},
+  ) {
+    super(message, { cause });
+    this.name = 'AppError';
+    this.severity = severity;
+    this.actions = actions;
+    this.subject = subject ?? null;
+  }
+}
+
+export const RECONNECT_ACTION: ErrorAction = { label: 'Reconnect', action: 'reconnect' };
+export const GRANT_MIDI_ACTION: ErrorAction = { label: 'Grant MIDI', action: 'grant-midi' };
+
+/** The message of anything thrown, for errors from libraries and the browser. */
+export function errorMessage(e: unknown) {
+  return e instanceof Error ? e.message : String(e);
+}
@@ -0,0 +1,272 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { floatToInt16 } from './wav';
+
+/**
+ * A minimal 16-bit FLAC encoder: fixed-blocksize frames, independent
+ * channels and FIXED predictors (order 0-4) with a single Rice partition.
+ * Not as tight as libFLAC, but lossless and readable by any decoder.
+ */
+
+const BLOCK_SIZE = 4096;
+const BITS_PER_SAMPLE = 16;
+
+/** Writes big-endian bit fields into a growable byte array. */
+class BitWriter {
+  private bytes = new Uint8Array(1 << 16);
+  private length = 0;
+  private acc = 0;
+  private accBits = 0;
+
+  get byteLength() {
+    return this.length;
+  }
+
+  private ensure(extra: number) {
+    if (this.length + extra <= this.bytes.length) return;
+    let size = this.bytes.length * 2;
+    while (size < this.length + extra) size *= 2;
+    const grown = new Uint8Array(size);
+    grown.set(this.bytes.subarray(0, this.length));
+    this.bytes = grown;
+  }
+
+  /** Writes the low `count` bits of `value`, count <= 24. */
+  write(value: number, count: number) {
+    this.acc = (this.acc * (1 << count)) + (value & ((1 << count) - 1));
+    this.accBits += count;
+    this.ensure(4);
+    while (this.accBits >= 8) {
+      this.accBits -= 8;
+      this.bytes[this.length++] = Math.floor(this.acc / (1 << this.accBits)) & 0xff;
+    }
+    this.acc &= (1 << this.accBits) - 1;
+  }
+
+  writeSigned(value: number, count: number) {
+    this.write(value < 0 ? value + (1 << count) : value, count);
+  }
+
+  writeUnary(zeros: number) {
+    while (zeros >= 16) {
+      this.write(0, 16);
+      zeros -= 16;
+    }
+    this.write(1, zeros + 1);
+  }
+
+  writeBytes(data: Uint8Array) {
+    this.alignToByte();
+    this.ensure(data.length);
+    this.bytes.set(data, this.length);
+    this.length += data.length;
+  }
+
+  alignToByte() {
+    if (this.accBits > 0) this.write(0, 8 - this.accBits);
+  }
+
+  /** Returns the bytes written since `start`, which must be byte aligned. */
+  slice(start: number, end = this.length) {
+    return this.bytes.subarray(start, end);
+  }
+
+  toUint8Array() {
+    this.alignToByte();
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+function crc8(data: Uint8Array) {
+  let crc = 0;
+  for (const byte of data) {
+    crc ^= byte;
+    for (let i = 0; i < 8; i++) {
+      crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff;
+    }
+  }
+  return crc;
+}
+
+function crc16(data: Uint8Array) {
+  let crc = 0;
+  for (const byte of data) {
+    crc ^= byte << 8;
+    for (let i = 0; i < 8; i++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x8005) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc;
+}
+
+/** FLAC's UTF-8-like variable length encoding of the frame number. */
+function writeFrameNumber(writer: BitWriter, n: number) {
+  if (n < 0x80) {
+    writer.write(n, 8);
+    return;
+  }
+  const bytes: number[] = [];
+  let value = n;
+  while (value >= 1 << (6 - bytes.length)) {
+    bytes.unshift(0x80 | (value & 0x3f));
+    value = Math.floor(value / 64);
+  }
+  const prefix = (0xff00 >> (bytes.length + 1)) & 0xff;
+  writer.write(prefix | value, 8);
+  for (const b of bytes) writer.write(b, 8);
+}
+
+function sampleRateCode(sampleRate: number) {
+  switch (sampleRate) {
+    case 44100: return 9;
+    case 48000: return 10;
+    case 96000: return 11;
+    default: return 0; // taken from STREAMINFO
+  }
+}
+
+function residual(samples: Int32Array, order: number, i: number) {
+  const s = samples;
+  switch (order) {
+    case 0: return s[i];
+    case 1: return s[i] - s[i - 1];
+    case 2: return s[i] - 2 * s[i - 1] + s[i - 2];
+    case 3: return s[i] - 3 * s[i - 1] + 3 * s[i - 2] - s[i - 3];
+    default: return s[i] - 4 * s[i - 1] + 6 * s[i - 2] - 4 * s[i - 3] + s[i - 4];
+  }
+}
+
+function writeSubframe(writer: BitWriter, samples: Int32Array) {
+  const n = samples.length;
+  const maxOrder = Math.min(4, n - 1);
+
+  let bestOrder = 0;
+  let bestSum = Infinity;
+  for (let order = 0; order <= maxOrder; order++) {
+    let sum = 0;
+    for (let i = order; i < n; i++) sum += Math.abs(residual(samples, order, i));
+    if (sum < bestSum) {
+      bestSum = sum;
+      bestOrder = order;
+    }
+  }
+
+  const count = n - bestOrder;
+  const mean = count > 0 ? (bestSum * 2) / count : 0;
+  const k = Math.min(14, Math.max(0, Math.floor(Math.log2(mean + 1))));
+
+  // Subframe header: zero pad bit, FIXED type with order, no wasted bits.
+  writer.write(0b001000 | bestOrder, 7);
+  writer.write(0, 1);
+  for (let i = 0; i < bestOrder; i++) writer.writeSigned(samples[i], BITS_PER_SAMPLE);
+
+  // Rice coding, 4-bit parameter, partition order 0.
+  writer.write(0, 2);
+  writer.write(0, 4);
+  writer.write(k, 4);
+  for (let i = bestOrder; i < n; i++) {
+    const r = residual(samples, bestOrder, i);
+    const u = r >= 0 ? r * 2 : -r * 2 - 1;
+    writer.writeUnary(Math.floor(u / (1 << k)));
+    if (k > 0) writer.write(u, k);
+  }
+}
+
+function writeFrame(writer: BitWriter, channels: Int32Array[], frameNumber: number, sampleRate: number) {
+  const start = writer.byteLength;
+  const blockSize = channels[0].length;
+  const fixedSize = blockSize === BLOCK_SIZE;
+
+  writer.write(0b11111111111110, 14);
+  writer.write(0, 1); // reserved
+  writer.write(0, 1); // fixed blocksize stream
+  writer.write(fixedSize ? 0b1100 : 0b0111, 4);
+  writer.write(sampleRateCode(sampleRate), 4);
+  writer.write(channels.length - 1, 4); // independent channels
+  writer.write(0b100, 3); // 16 bits per sample
+  writer.write(0, 1);
+  writeFrameNumber(writer, frameNumber);
+  if (!fixedSize) writer.write(blockSize - 1, 16);
+  writer.write(crc8(writer.slice(start)), 8);
+
+  for (const channel of channels) writeSubframe(writer, channel);
+
+  writer.alignToByte();
+  writer.write(crc16(writer.slice(start)), 16);
+}
+
+function buildVorbisComment(comments: Record<string, string>): Uint8Array {
+  const encoder = new TextEncoder();
+  const vendor = encoder.encode('prompt-dj-midi');
+  const entries = Object.entries(comments).map(([key, value]) => encoder.encode(`${key}=${value}`));
+  const size = 4 + vendor.length + 4 + entries.reduce((sum, e) => sum + 4 + e.length, 0);
+  const bytes = new Uint8Array(size);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, vendor.length, true);
+  bytes.set(vendor, 4);
+  let offset = 4 + vendor.length;
+  view.setUint32(offset, entries.length, true);
+  offset += 4;
+  for (const e of entries) {
+    view.setUint32(offset, e.length, true);
+    bytes.set(e, offset + 4);
+    offset += 4 + e.length;
+  }
+  return bytes;
+}
+
+/**
+ * Encodes planar float channels as a 16-bit FLAC file. `comments` are stored
+ * as Vorbis comments (e.g. TITLE, DATE or application specific keys).
+ */
+function encodeFlac(
+  channels: Float32Array[],
+  sampleRate: number,
+  comments: Record<string, string> = {},
+): Blob {
+  const numChannels = channels.length;
+  const frameCount = numChannels > 0 ? channels[0].length : 0;
+  const writer = new BitWriter();
+
+  writer.writeBytes(new TextEncoder().encode('fLaC'));
+
+  // STREAMINFO
+  writer.write(0, 1);
+  writer.write(0, 7);
+  writer.write(34, 24);
+  writer.write(BLOCK_SIZE, 16); // min block size, excluding the last block
+  writer.write(BLOCK_SIZE, 16);
+  writer.write(0, 24); // min frame size unknown
+  writer.write(0, 24); // max frame size unknown
+  writer.write(sampleRate, 20);
+  writer.write(numChannels - 1, 3);
+  writer.write(BITS_PER_SAMPLE - 1, 5);
+  writer.write(Math.floor(frameCount / 2 ** 32), 4);
+  writer.write(Math.floor(frameCount / 2 ** 16) & 0xffff, 16);
+  writer.write(frameCount & 0xffff, 16);
+  writer.writeBytes(new Uint8Array(16)); // MD5 unknown
+
+  // VORBIS_COMMENT, the last metadata block
+  const vorbis = buildVorbisComment(comments);
+  writer.write(1, 1);
+  writer.write(4, 7);
+  writer.write(vorbis.length, 24);
+  writer.writeBytes(vorbis);
+
+  let frameNumber = 0;
+  for (let offset = 0; offset < frameCount; offset += BLOCK_SIZE) {
+    const end = Math.min(offset + BLOCK_SIZE, frameCount);
+    const block = channels.map((channel) => {
+      const ints = new Int32Array(end - offset);
+      for (let i = 0; i < ints.length; i++) ints[i] = floatToInt16(channel[offset + i]);
+      return ints;
+    });
+    writeFrame(writer, block, frameNumber++, sampleRate);
+  }
+
+  return new Blob([writer.toUint8Array()], { type: 'audio/flac' });
+}
+
+export {encodeFlac};
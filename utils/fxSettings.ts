@@ -0,0 +1,160 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { FxMapping, FxParam, FxSettings, PerformanceFx, ReverbImpulse } from '../types';
+import { scaleMidiValue } from './generationConfig';
+import { isObject, validateControlChange, validateDevice, type ValidationError } from './validation';
+
+export type FxToggle = Extract<FxParam, 'delay' | 'reverb'>;
+export type FxLevel = Extract<FxParam, 'delayFeedback' | 'delayMix' | 'reverbMix'>;
+export type FxLength = Extract<FxParam, 'delayBeats' | 'repeatBeats' | 'tapeStopBeats'>;
+
+export interface FxLevelSpec {
+  key: FxLevel;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+}
+
+/** A note length, as beats and as it is written. */
+export interface Division {
+  beats: number;
+  label: string;
+}
+
+export const FX_LEVELS: FxLevelSpec[] = [
+  { key: 'delayFeedback', label: 'Feedback', min: 0, max: 0.9, step: 0.01 },
+  { key: 'delayMix', label: 'Mix', min: 0, max: 1, step: 0.01 },
+  { key: 'reverbMix', label: 'Mix', min: 0, max: 1, step: 0.01 },
+];
+
+export const FX_TOGGLES: FxToggle[] = ['delay', 'reverb'];
+
+export const PERFORMANCE_FX: PerformanceFx[] = ['beatRepeat', 'tapeStop'];
+
+/** The lengths each beat-synced setting can take; 3/16 is a dotted eighth. */
+export const FX_LENGTHS: Record<FxLength, Division[]> = {
+  delayBeats: [
+    { beats: 0.25, label: '1/16' },
+    { beats: 0.5, label: '1/8' },
+    { beats: 0.75, label: '3/16' },
+    { beats: 1, label: '1/4' },
+    { beats: 2, label: '1/2' },
+  ],
+  repeatBeats: [
+    { beats: 0.125, label: '1/32' },
+    { beats: 0.25, label: '1/16' },
+    { beats: 0.5, label: '1/8' },
+    { beats: 1, label: '1/4' },
+    { beats: 2, label: '1/2' },
+    { beats: 4, label: '1 bar' },
+  ],
+  tapeStopBeats: [
+    { beats: 0.5, label: '1/8' },
+    { beats: 1, label: '1/4' },
+    { beats: 2, label: '1/2' },
+    { beats: 4, label: '1 bar' },
+  ],
+};
+
+export const REVERB_IMPULSES: { value: ReverbImpulse; label: string }[] = [
+  { value: 'room', label: 'Room' },
+  { value: 'plate', label: 'Plate' },
+  { value: 'hall', label: 'Hall' },
+];
+
+/** Both sends off, with levels that work as soon as either is switched on. */
+export const DEFAULT_FX_SETTINGS: FxSettings = {
+  delay: false,
+  delayBeats: 0.75,
+  delayFeedback: 0.4,
+  delayMix: 0.5,
+  reverb: false,
+  reverbImpulse: 'hall',
+  reverbMix: 0.4,
+  repeatBeats: 1,
+  tapeStopBeats: 2,
+};
+
+/** Picks one of `count` options from a 7-bit MIDI value, in equal slices of the control's travel. */
+function midiChoice(value: number, count: number) {
+  return Math.min(count - 1, Math.floor((value / 128) * count));
+}
+
+/**
+ * The settings with a mapped CC's value applied: scaled for levels, a slice
+ * of the travel per choice for lengths and spaces, on from 64 for toggles.
+ */
+export function fxWithControl(settings: FxSettings, param: keyof FxSettings, value: number): FxSettings {
+  const level = FX_LEVELS.find((p) => p.key === param);
+  if (level) return { ...settings, [param]: scaleMidiValue(level, value) };
+  if (param === 'reverbImpulse') {
+    return { ...settings, reverbImpulse: REVERB_IMPULSES[midiChoice(value, REVERB_IMPULSES.length)].value };
+  }
+  if (param in FX_LENGTHS) {
+    const divisions = FX_LENGTHS[param as FxLength];
+    return { ...settings, [param]: divisions[midiChoice(value, divisions.length)].beats };
+  }
+  return { ...settings, [param]: value >= 64 };
+}
+
+export function validateFxSettings(value: unknown, path: string): ValidationError[] {
+  if (!isObject(value)) return [{ path, message: 'must be an object' }];
+  const errors: ValidationError[] = [];
+  for (const key of FX_TOGGLES) {
+    if (typeof value[key] !== 'boolean') {
+      errors.push({ path: `${path}.${key}`, message: 'must be true or false' });
+    }
+  }
+  for (const spec of FX_LEVELS) {
+    const v = value[spec.key];
+    if (typeof v !== 'number' || v < spec.min || v > spec.max) {
+      errors.push({ path: `${path}.${spec.key}`, message: `must be between ${spec.min} and ${spec.max}` });
+    }
+  }
+  for (const [key, divisions] of Object.entries(FX_LENGTHS)) {
+    if (!divisions.some((d) => d.beats === value[key])) {
+      errors.push({ path: `${path}.${key}`, message: `must be one of ${divisions.map((d) => d.beats).join(', ')}` });
+    }
+  }
+  if (!REVERB_IMPULSES.some((r) => r.value === value.reverbImpulse)) {
+    errors.push({ path: `${path}.reverbImpulse`, message: `must be one of ${REVERB_IMPULSES.map((r) => r.value).join(', ')}` });
+  }
+  return errors;
+}
+
+export function toFxSettings(value: Record<string, unknown>): FxSettings {
+  const settings = { ...DEFAULT_FX_SETTINGS };
+  for (const key of FX_TOGGLES) settings[key] = value[key] as boolean;
+  for (const { key } of FX_LEVELS) settings[key] = value[key] as number;
+  for (const key of Object.keys(FX_LENGTHS) as FxLength[]) settings[key] = value[key] as number;
+  settings.reverbImpulse = value.reverbImpulse as ReverbImpulse;
+  return settings;
+}
+
+export function validateFxMappings(value: unknown, path: string): ValidationError[] {
+  if (!Array.isArray(value)) return [{ path, message: 'must be an array' }];
+  const params = new Set<string>([...Object.keys(DEFAULT_FX_SETTINGS), ...PERFORMANCE_FX]);
+  return value.flatMap((m, i): ValidationError[] => {
+    const itemPath = `${path}[${i}]`;
+    if (!isObject(m)) return [{ path: itemPath, message: 'must be an object' }];
+    const errors: ValidationError[] = [];
+    if (typeof m.param !== 'string' || !params.has(m.param)) {
+      errors.push({ path: `${itemPath}.param`, message: 'must be an effect control' });
+    }
+    errors.push(...validateControlChange(m, itemPath));
+    errors.push(...validateDevice(m.device, `${itemPath}.device`));
+    return errors;
+  });
+}
+
+export function toFxMappings(value: Record<string, unknown>[]): FxMapping[] {
+  return value.map((m) => ({
+    param: m.param as FxParam,
+    device: (m.device as string | null | undefined) ?? null,
+    cc: m.cc as number,
+    channel: m.channel as number,
+  }));
+}
@@ -0,0 +1,135 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Scale, type LiveMusicGenerationConfig } from '@google/genai';
+import type { ConfigMapping, GenerationParam } from '../types';
+import { isObject, validateControlChange, validateDevice, type ValidationError } from './validation';
+
+export type ToggleParam = Extract<GenerationParam, 'muteBass' | 'muteDrums'>;
+export type NumericParam = Exclude<GenerationParam, ToggleParam>;
+
+export interface NumericParamSpec {
+  key: NumericParam;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  /** Optional params can be left unset so the model chooses. */
+  optional: boolean;
+}
+
+/** Ranges follow the LiveMusicGenerationConfig documentation. */
+export const NUMERIC_PARAMS: NumericParamSpec[] = [
+  { key: 'bpm', label: 'BPM', min: 60, max: 200, step: 1, optional: true },
+  { key: 'density', label: 'Density', min: 0, max: 1, step: 0.01, optional: true },
+  { key: 'brightness', label: 'Brightness', min: 0, max: 1, step: 0.01, optional: true },
+  { key: 'guidance', label: 'Guidance', min: 0, max: 6, step: 0.1, optional: false },
+  { key: 'temperature', label: 'Temperature', min: 0, max: 3, step: 0.01, optional: false },
+  { key: 'topK', label: 'Top K', min: 1, max: 1000, step: 1, optional: false },
+];
+
+export const TOGGLE_PARAMS: { key: ToggleParam; label: string }[] = [
+  { key: 'muteBass', label: 'Mute bass' },
+  { key: 'muteDrums', label: 'Mute drums' },
+];
+
+export const SCALES: { value: Scale; label: string }[] = [
+  { value: Scale.SCALE_UNSPECIFIED, label: 'Auto' },
+  { value: Scale.C_MAJOR_A_MINOR, label: 'C maj / A min' },
+  { value: Scale.D_FLAT_MAJOR_B_FLAT_MINOR, label: 'D♭ maj / B♭ min' },
+  { value: Scale.D_MAJOR_B_MINOR, label: 'D maj / B min' },
+  { value: Scale.E_FLAT_MAJOR_C_MINOR, label: 'E♭ maj / C min' },
+  { value: Scale.E_MAJOR_D_FLAT_MINOR, label: 'E maj / C♯ min' },
+  { value: Scale.F_MAJOR_D_MINOR, label: 'F maj / D min' },
+  { value: Scale.G_FLAT_MAJOR_E_FLAT_MINOR, label: 'G♭ maj / E♭ min' },
+  { value: Scale.G_MAJOR_E_MINOR, label: 'G maj / E min' },
+  { value: Scale.A_FLAT_MAJOR_F_MINOR, label: 'A♭ maj / F min' },
+  { value: Scale.A_MAJOR_G_FLAT_MINOR, label: 'A maj / F♯ min' },
+  { value: Scale.B_FLAT_MAJOR_G_MINOR, label: 'B♭ maj / G min' },
+  { value: Scale.B_MAJOR_A_FLAT_MINOR, label: 'B maj / G♯ min' },
+];
+
+/** The session only picks up BPM and scale changes after a context reset. */
+export const RESET_PARAMS: (keyof LiveMusicGenerationConfig)[] = ['bpm', 'scale'];
+
+/** Tempo for beat-synced features when the generation config leaves BPM unset. */
+export const DEFAULT_BPM = 120;
+
+/** Matches the tempo and key the default prompts were written for. */
+export const DEFAULT_GENERATION_CONFIG: LiveMusicGenerationConfig = {
+  bpm: 167,
+  scale: Scale.D_FLAT_MAJOR_B_FLAT_MINOR,
+  guidance: 4,
+  temperature: 1.1,
+  topK: 40,
+  muteBass: false,
+  muteDrums: false,
+};
+
+/** Maps a 7-bit MIDI value onto a parameter's range, snapped to its step. */
+export function scaleMidiValue(spec: Pick<NumericParamSpec, 'min' | 'max' | 'step'>, value: number) {
+  const raw = spec.min + (value / 127) * (spec.max - spec.min);
+  const snapped = Math.round(raw / spec.step) * spec.step;
+  return Math.min(spec.max, Math.max(spec.min, Number(snapped.toFixed(4))));
+}
+
+/** The config with a mapped CC's value applied: scaled for numbers, on from 64 for toggles. */
+export function configWithControl(config: LiveMusicGenerationConfig, param: GenerationParam, value: number) {
+  const spec = NUMERIC_PARAMS.find((p) => p.key === param);
+  return { ...config, [param]: spec ? scaleMidiValue(spec, value) : value >= 64 };
+}
+
+/** True if changing from `a` to `b` requires a context reset. */
+export function requiresReset(a: LiveMusicGenerationConfig, b: LiveMusicGenerationConfig) {
+  return RESET_PARAMS.some((key) => a[key] !== b[key]);
+}
+
+export function validateGenerationConfig(value: unknown, path: string): ValidationError[] {
+  if (!isObject(value)) return [{ path, message: 'must be an object' }];
+  const errors: ValidationError[] = [];
+  for (const spec of NUMERIC_PARAMS) {
+    const v = value[spec.key];
+    if (v === undefined) continue;
+    if (typeof v !== 'number' || v < spec.min || v > spec.max) {
+      errors.push({ path: `${path}.${spec.key}`, message: `must be between ${spec.min} and ${spec.max}` });
+    }
+  }
+  for (const { key } of TOGGLE_PARAMS) {
+    if (value[key] !== undefined && typeof value[key] !== 'boolean') {
+      errors.push({ path: `${path}.${key}`, message: 'must be true or false' });
+    }
+  }
+  if (value.scale !== undefined && !SCALES.some((s) => s.value === value.scale)) {
+    errors.push({ path: `${path}.scale`, message: 'must be a known scale' });
+  }
+  if (value.seed !== undefined && !Number.isInteger(value.seed)) {
+    errors.push({ path: `${path}.seed`, message: 'must be an integer' });
+  }
+  return errors;
+}
+
+export function validateConfigMappings(value: unknown, path: string): ValidationError[] {
+  if (!Array.isArray(value)) return [{ path, message: 'must be an array' }];
+  const params = new Set<string>([...NUMERIC_PARAMS, ...TOGGLE_PARAMS].map((p) => p.key));
+  return value.flatMap((m, i): ValidationError[] => {
+    const itemPath = `${path}[${i}]`;
+    if (!isObject(m)) return [{ path: itemPath, message: 'must be an object' }];
+    const errors: ValidationError[] = [];
+    if (typeof m.param !== 'string' || !params.has(m.param)) {
+      errors.push({ path: `${itemPath}.param`, message: 'must be a generation parameter' });
+    }
+    errors.push(...validateControlChange(m, itemPath));
+    errors.push(...validateDevice(m.device, `${itemPath}.device`));
+    return errors;
+  });
+}
+
+export function toConfigMappings(value: Record<string, unknown>[]): ConfigMapping[] {
+  return value.map((m) => ({
+    param: m.param as GenerationParam,
+    device: (m.device as string | null | undefined) ?? null,
+    cc: m.cc as number,
+    channel: m.channel as number,
+  }));
+}
@@ -0,0 +1,96 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Gesture, GestureTake } from '../types';
+import { isObject, validateGesture, type ValidationError } from './validation';
+
+export const TAKE_FORMAT = 'prompt-dj-midi-take';
+export const TAKE_VERSION = 1;
+
+/**
+ * A gesture take, saved as a JSON file:
+ *
+ * ```json
+ * {
+ *   "format": "prompt-dj-midi-take",
+ *   "version": 1,
+ *   "recordedAt": "2026-01-04T20:00:00.000Z",
+ *   "duration": 61250,
+ *   "initial": [
+ *     { "time": 0, "promptId": "prompt-0", "text": "Techno", "weight": 1 }
+ *   ],
+ *   "gestures": [
+ *     { "time": 1520, "promptId": "prompt-0", "text": "Techno", "weight": 0.8 }
+ *   ]
+ * }
+ * ```
+ *
+ * Times are in ms from the start of the take, and `weight` is 0-2. Prompts
+ * are matched by `promptId` on replay, so gestures for prompts the grid
+ * lacks are skipped.
+ */
+export interface TakeFile extends GestureTake {
+  format: typeof TAKE_FORMAT;
+  version: number;
+  recordedAt: string;
+}
+
+export function createTakeFile(take: GestureTake): TakeFile {
+  return {
+    format: TAKE_FORMAT,
+    version: TAKE_VERSION,
+    recordedAt: new Date().toISOString(),
+    ...take,
+  };
+}
+
+export function takeToBlob(take: TakeFile): Blob {
+  return new Blob([JSON.stringify(take, null, 2)], { type: 'application/json' });
+}
+
+function validateGestures(value: unknown, path: string): ValidationError[] {
+  if (!Array.isArray(value)) return [{ path, message: 'must be an array' }];
+  return value.flatMap((g, i) => validateGesture(g, `${path}[${i}]`));
+}
+
+function toGesture({ time, promptId, text, weight }: Gesture): Gesture {
+  return { time, promptId, text, weight };
+}
+
+/** Parses and validates a take file, reporting every invalid field. */
+export function parseTake(json: string): { take: GestureTake | null; errors: ValidationError[] } {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    return { take: null, errors: [{ path: 'file', message: `is not valid JSON (${(e as Error).message})` }] };
+  }
+  if (!isObject(data)) {
+    return { take: null, errors: [{ path: 'file', message: 'must contain a JSON object' }] };
+  }
+
+  const errors: ValidationError[] = [];
+  if (data.format !== TAKE_FORMAT) {
+    errors.push({ path: 'format', message: `must be "${TAKE_FORMAT}"` });
+  }
+  if (typeof data.version !== 'number' || data.version > TAKE_VERSION) {
+    errors.push({ path: 'version', message: `must be a number no greater than ${TAKE_VERSION}` });
+  }
+  if (typeof data.duration !== 'number' || !(data.duration >= 0)) {
+    errors.push({ path: 'duration', message: 'must be a number of at least 0' });
+  }
+  errors.push(...validateGestures(data.initial, 'initial'));
+  errors.push(...validateGestures(data.gestures, 'gestures'));
+  if (errors.length > 0) return { take: null, errors };
+
+  return {
+    take: {
+      duration: data.duration as number,
+      initial: (data.initial as Gesture[]).map(toGesture),
+      // Replay walks the gestures in order.
+      gestures: (data.gestures as Gesture[]).map(toGesture).sort((a, b) => a.time - b.time),
+    },
+    errors,
+  };
+}
@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ReverbImpulse } from '../types';
+
+interface ImpulseShape {
+  /** Seconds until the tail has decayed by 60 dB. */
+  duration: number;
+  /** Seconds of silence before the tail, as the distance to the first walls. */
+  predelay: number;
+  /** Cutoff of the tail's damping at its start and end, in Hz; air absorbs highs as sound travels. */
+  brightness: number;
+  darkness: number;
+}
+
+const SHAPES: Record<ReverbImpulse, ImpulseShape> = {
+  room: { duration: 0.8, predelay: 0.005, brightness: 7000, darkness: 1500 },
+  plate: { duration: 1.8, predelay: 0, brightness: 12000, darkness: 5000 },
+  hall: { duration: 3.2, predelay: 0.025, brightness: 8000, darkness: 1000 },
+};
+
+/** A small seeded generator, so each impulse sounds the same on every load. */
+function mulberry32(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Builds a stereo impulse response for the convolution reverb: exponentially
+ * decaying noise, darkening as it decays. The channels use different noise so
+ * the tail is wide.
+ */
+export function createImpulseResponse(context: BaseAudioContext, impulse: ReverbImpulse): AudioBuffer {
+  const { duration, predelay, brightness, darkness } = SHAPES[impulse];
+  const rate = context.sampleRate;
+  const offset = Math.round(predelay * rate);
+  const length = offset + Math.round(duration * rate);
+  const buffer = context.createBuffer(2, length, rate);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    const random = mulberry32(Object.keys(SHAPES).indexOf(impulse) * 2 + c);
+    let lowpassed = 0;
+    for (let i = offset; i < length; i++) {
+      const t = (i - offset) / rate / duration;
+      // One-pole low-pass whose cutoff slides from bright to dark.
+      const cutoff = brightness * (darkness / brightness) ** t;
+      const coefficient = 1 - Math.exp((-2 * Math.PI * cutoff) / rate);
+      lowpassed += coefficient * (random() * 2 - 1 - lowpassed);
+      data[i] = lowpassed * Math.exp(-6.9 * t);
+    }
+  }
+  return buffer;
+}
@@ -0,0 +1,152 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { KeyAction, Keymap } from '../types';
+import { isObject, type ValidationError } from './validation';
+
+/** The number row and the three letter rows below it, laid out like the 4x4 grid. */
+const GRID_KEYS = [
+  'Digit1', 'Digit2', 'Digit3', 'Digit4',
+  'KeyQ', 'KeyW', 'KeyE', 'KeyR',
+  'KeyA', 'KeyS', 'KeyD', 'KeyF',
+  'KeyZ', 'KeyX', 'KeyC', 'KeyV',
+];
+
+/** Scenes that have a recall key. */
+const SCENE_KEY_COUNT = 8;
+
+/** Weight change of a nudge and of a coarse nudge. */
+export const NUDGE_STEP = 0.05;
+export const COARSE_NUDGE_STEP = 0.25;
+
+export const DEFAULT_KEYMAP: Keymap = {
+  'play-pause': 'Space',
+  'select-previous': 'ArrowLeft',
+  'select-next': 'ArrowRight',
+  'nudge-up': 'ArrowUp',
+  'nudge-down': 'ArrowDown',
+  'nudge-up-coarse': 'Shift+ArrowUp',
+  'nudge-down-coarse': 'Shift+ArrowDown',
+  'mute': 'KeyM',
+  'solo': 'KeyN',
+  'show-keymap': 'Shift+Slash',
+  ...Object.fromEntries(GRID_KEYS.map((code, i) => [`select-${i}`, code])),
+  ...Object.fromEntries(
+    Array.from({ length: SCENE_KEY_COUNT }, (_, i) => [`scene-${i}`, `Shift+Digit${i + 1}`]),
+  ),
+};
+
+export interface KeyActionGroup {
+  title: string;
+  actions: { action: KeyAction; label: string }[];
+}
+
+/** Every bindable action, grouped as the keymap overlay lists them. */
+export const KEY_ACTION_GROUPS: KeyActionGroup[] = [
+  {
+    title: 'Performance',
+    actions: [
+      { action: 'play-pause', label: 'Play / pause' },
+      { action: 'select-previous', label: 'Previous knob' },
+      { action: 'select-next', label: 'Next knob' },
+      { action: 'nudge-up', label: 'Nudge up' },
+      { action: 'nudge-down', label: 'Nudge down' },
+      { action: 'nudge-up-coarse', label: 'Nudge up more' },
+      { action: 'nudge-down-coarse', label: 'Nudge down more' },
+      { action: 'mute', label: 'Mute knob' },
+      { action: 'solo', label: 'Solo knob' },
+      { action: 'show-keymap', label: 'Show keys' },
+    ],
+  },
+  {
+    title: 'Select knob',
+    actions: GRID_KEYS.map((_, i) => ({ action: `select-${i}` as KeyAction, label: `${i + 1}` })),
+  },
+  {
+    title: 'Recall scene',
+    actions: Array.from({ length: SCENE_KEY_COUNT }, (_, i) => ({
+      action: `scene-${i}` as KeyAction,
+      label: `${i + 1}`,
+    })),
+  },
+];
+
+const MODIFIER_CODES = new Set([
+  'ShiftLeft', 'ShiftRight', 'ControlLeft', 'ControlRight', 'AltLeft', 'AltRight', 'MetaLeft', 'MetaRight',
+]);
+
+const CODE_LABELS: Record<string, string> = {
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  Backquote: '`',
+  Minus: '-',
+  Equal: '=',
+  BracketLeft: '[',
+  BracketRight: ']',
+  Backslash: '\\',
+  Semicolon: ';',
+  Quote: "'",
+  Comma: ',',
+  Period: '.',
+  Slash: '/',
+};
+
+/**
+ * The chord a key press matches, e.g. `Ctrl+Shift+KeyK`, or null for a lone
+ * modifier or a press with Meta held, which belongs to the browser and OS.
+ */
+export function chordFromEvent(e: KeyboardEvent): string | null {
+  if (!e.code || e.metaKey || MODIFIER_CODES.has(e.code)) return null;
+  const modifiers = [e.ctrlKey && 'Ctrl', e.altKey && 'Alt', e.shiftKey && 'Shift'].filter(Boolean);
+  return [...modifiers, e.code].join('+');
+}
+
+/** A chord as printed on the keys, e.g. `Shift+/`. */
+export function formatChord(chord: string) {
+  return chord
+    .split('+')
+    .map((part) => CODE_LABELS[part] ?? part.replace(/^(Key|Digit)/, ''))
+    .join('+');
+}
+
+export function actionForChord(keymap: Keymap, chord: string): KeyAction | null {
+  const entry = Object.entries(keymap).find(([, bound]) => bound === chord);
+  return entry ? (entry[0] as KeyAction) : null;
+}
+
+/** Binds a chord to an action, taking it from any other action. */
+export function rebind(keymap: Keymap, action: KeyAction, chord: string): Keymap {
+  const updated: Keymap = { ...keymap };
+  for (const [other, bound] of Object.entries(updated)) {
+    if (bound === chord) updated[other as KeyAction] = '';
+  }
+  updated[action] = chord;
+  return updated;
+}
+
+/** True for key presses meant for a text field, such as a prompt being edited. */
+export function isTyping(e: KeyboardEvent) {
+  return e.composedPath().some((target) => {
+    if (!(target instanceof HTMLElement)) return false;
+    return target.isContentEditable || ['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName);
+  });
+}
+
+/** Checks a stored keymap; an empty string leaves an action unbound. */
+export function validateKeymap(value: unknown, path: string): ValidationError[] {
+  if (!isObject(value)) return [{ path, message: 'must be an object' }];
+  return Object.entries(value).flatMap(([action, chord]): ValidationError[] => {
+    const itemPath = `${path}[${JSON.stringify(action)}]`;
+    if (!(action in DEFAULT_KEYMAP)) return [{ path: itemPath, message: 'must be a key action' }];
+    if (typeof chord !== 'string') return [{ path: itemPath, message: 'must be a string' }];
+    return [];
+  });
+}
+
+/** Fills in actions added since a keymap passed validateKeymap was stored. */
+export function toKeymap(value: Record<string, unknown>): Keymap {
+  return { ...DEFAULT_KEYMAP, ...(value as Keymap) };
+}
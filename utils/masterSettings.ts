@@ -0,0 +1,112 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { MasterMapping, MasterParam, MasterSettings } from '../types';
+import { scaleMidiValue } from './generationConfig';
+import { isObject, validateControlChange, validateDevice, type ValidationError } from './validation';
+
+export type MasterToggle = Extract<MasterParam, 'lowKill' | 'midKill' | 'highKill' | 'limiter'>;
+export type MasterNumericParam = Exclude<MasterParam, MasterToggle>;
+
+export interface MasterParamSpec {
+  key: MasterNumericParam;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  /** Shown after the value, e.g. `dB`. */
+  unit: string;
+}
+
+export const MASTER_PARAMS: MasterParamSpec[] = [
+  { key: 'volume', label: 'Volume', min: 0, max: 1, step: 0.01, unit: '' },
+  { key: 'high', label: 'High', min: -24, max: 6, step: 0.5, unit: 'dB' },
+  { key: 'mid', label: 'Mid', min: -24, max: 6, step: 0.5, unit: 'dB' },
+  { key: 'low', label: 'Low', min: -24, max: 6, step: 0.5, unit: 'dB' },
+  { key: 'filter', label: 'Filter', min: -1, max: 1, step: 0.01, unit: '' },
+  { key: 'resonance', label: 'Resonance', min: 0.5, max: 15, step: 0.1, unit: 'Q' },
+];
+
+export const MASTER_TOGGLES: { key: MasterToggle; label: string }[] = [
+  { key: 'highKill', label: 'Kill high' },
+  { key: 'midKill', label: 'Kill mid' },
+  { key: 'lowKill', label: 'Kill low' },
+  { key: 'limiter', label: 'Limiter' },
+];
+
+/** The kill switch next to each EQ band. */
+export const BAND_KILLS: Partial<Record<MasterNumericParam, MasterToggle>> = {
+  high: 'highKill',
+  mid: 'midKill',
+  low: 'lowKill',
+};
+
+/** Flat and open, at full volume behind the limiter. */
+export const DEFAULT_MASTER_SETTINGS: MasterSettings = {
+  volume: 1,
+  low: 0,
+  mid: 0,
+  high: 0,
+  lowKill: false,
+  midKill: false,
+  highKill: false,
+  filter: 0,
+  resonance: 1,
+  limiter: true,
+};
+
+/** The settings with a mapped CC's value applied: scaled for levels, on from 64 for toggles. */
+export function masterWithControl(settings: MasterSettings, param: MasterParam, value: number): MasterSettings {
+  const spec = MASTER_PARAMS.find((p) => p.key === param);
+  return { ...settings, [param]: spec ? scaleMidiValue(spec, value) : value >= 64 };
+}
+
+export function validateMasterSettings(value: unknown, path: string): ValidationError[] {
+  if (!isObject(value)) return [{ path, message: 'must be an object' }];
+  const errors: ValidationError[] = [];
+  for (const spec of MASTER_PARAMS) {
+    const v = value[spec.key];
+    if (typeof v !== 'number' || v < spec.min || v > spec.max) {
+      errors.push({ path: `${path}.${spec.key}`, message: `must be between ${spec.min} and ${spec.max}` });
+    }
+  }
+  for (const { key } of MASTER_TOGGLES) {
+    if (typeof value[key] !== 'boolean') {
+      errors.push({ path: `${path}.${key}`, message: 'must be true or false' });
+    }
+  }
+  return errors;
+}
+
+export function toMasterSettings(value: Record<string, unknown>): MasterSettings {
+  const settings = { ...DEFAULT_MASTER_SETTINGS };
+  for (const { key } of MASTER_PARAMS) settings[key] = value[key] as number;
+  for (const { key } of MASTER_TOGGLES) settings[key] = value[key] as boolean;
+  return settings;
+}
+
+export function validateMasterMappings(value: unknown, path: string): ValidationError[] {
+  if (!Array.isArray(value)) return [{ path, message: 'must be an array' }];
+  const params = new Set<string>([...MASTER_PARAMS, ...MASTER_TOGGLES].map((p) => p.key));
+  return value.flatMap((m, i): ValidationError[] => {
+    const itemPath = `${path}[${i}]`;
+    if (!isObject(m)) return [{ path: itemPath, message: 'must be an object' }];
+    const errors: ValidationError[] = [];
+    if (typeof m.param !== 'string' || !params.has(m.param)) {
+      errors.push({ path: `${itemPath}.param`, message: 'must be a master control' });
+    }
+    errors.push(...validateControlChange(m, itemPath));
+    errors.push(...validateDevice(m.device, `${itemPath}.device`));
+    return errors;
+  });
+}
+
+export function toMasterMappings(value: Record<string, unknown>[]): MasterMapping[] {
+  return value.map((m) => ({
+    param: m.param as MasterParam,
+    device: (m.device as string | null | undefined) ?? null,
+    cc: m.cc as number,
+    channel: m.channel as number,
+  }));
+}
@@ -0,0 +1,31 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { decode, decodePcm16 } from './audio';
+import type { DecodedChunk, DecoderRequest, PlayerCommand } from './pcmMessages';
+
+/**
+ * Decodes base64 PCM chunks off the main thread. Decoded audio goes straight
+ * to the player worklet, so main-thread jank can't delay it; a copy is posted
+ * back for the recorder.
+ */
+let playerPort: MessagePort | null = null;
+
+self.onmessage = (e: MessageEvent<DecoderRequest>) => {
+  const request = e.data;
+  switch (request.type) {
+    case 'player-port':
+      playerPort = request.port;
+      break;
+    case 'decode': {
+      const channels = decodePcm16(decode(request.data), request.numChannels);
+      const { epoch } = request;
+      const decoded: DecodedChunk = { type: 'decoded', channels, epoch };
+      self.postMessage(decoded);
+      const push: PlayerCommand = { type: 'push', channels, epoch };
+      playerPort?.postMessage(push, channels.map((c) => c.buffer));
+      break;
+    }
+  }
+};
@@ -0,0 +1,34 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** Messages sent to the decoder worker. */
+export type DecoderRequest =
+  | { type: 'player-port'; port: MessagePort }
+  | { type: 'decode'; data: string; numChannels: number; epoch: number };
+
+/** Sent back by the decoder worker with a copy of each decoded chunk. */
+export interface DecodedChunk {
+  type: 'decoded';
+  channels: Float32Array[];
+  epoch: number;
+}
+
+/**
+ * Messages the player worklet accepts, from the main thread or the worker.
+ * Each 'clear' starts a new epoch; chunks pushed for an earlier one were
+ * still being decoded when the player was cleared, and are dropped. A push
+ * for a later epoch than the worklet has seen clears it first.
+ */
+export type PlayerCommand =
+  | { type: 'push'; channels: Float32Array[]; epoch: number }
+  | { type: 'target-latency'; frames: number }
+  | { type: 'clear'; epoch: number }
+  | { type: 'decoder-port'; port: MessagePort };
+
+/** Reports from the player worklet to the main thread. */
+export type PlayerReport =
+  | { type: 'started' }
+  | { type: 'underrun' }
+  | { type: 'buffered'; frames: number };
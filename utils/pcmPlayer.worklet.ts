@@ -0,0 +1,191 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { PlayerCommand, PlayerReport } from './pcmMessages';
+
+// AudioWorkletGlobalScope isn't part of the DOM lib.
+declare const sampleRate: number;
+declare abstract class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  abstract process(inputs: Float32Array[][], outputs: Float32Array[][], parameters: Record<string, Float32Array>): boolean;
+}
+declare function registerProcessor(name: string, processorCtor: new () => AudioWorkletProcessor): void;
+
+/** Ring buffer size; comfortably above the jitter buffer's maximum latency. */
+const CAPACITY_SECONDS = 20;
+
+/** Fade applied when playback starts, runs dry or is cleared. */
+const FADE_SECONDS = 0.01;
+
+/** Buffered audio beyond the target latency that is tolerated before catching up. */
+const CATCH_UP_THRESHOLD_SECONDS = 0.25;
+
+/**
+ * How much faster than real time playback runs while catching up: 5 ms of
+ * latency a second, at a pitch shift of under 9 cents.
+ */
+const CATCH_UP_RATE = 0.005;
+
+/** How often the buffered amount is reported to the main thread. */
+const REPORT_INTERVAL_SECONDS = 0.25;
+
+/**
+ * Plays decoded PCM from a ring buffer on the audio thread. Playback starts
+ * once the target latency is buffered; when the buffer runs dry it fades out,
+ * reports an underrun and rebuffers. When far more than the target is
+ * buffered, it plays slightly fast until the target is reached again.
+ */
+class PcmPlayerProcessor extends AudioWorkletProcessor {
+  private readonly capacity = Math.round(CAPACITY_SECONDS * sampleRate);
+  private readonly fadeFrames = Math.round(FADE_SECONDS * sampleRate);
+  private ring: Float32Array[] = [];
+  private readIndex = 0;
+  /** Fraction of a frame past readIndex, while playing faster than real time. */
+  private readPhase = 0;
+  private writeIndex = 0;
+  private fill = 0;
+  private targetFrames = 2 * sampleRate;
+  private playing = false;
+  /** Set while fading out after 'clear', so running dry isn't an underrun. */
+  private clearing = false;
+  /** Epoch of the last 'clear'; see PlayerCommand. */
+  private epoch = 0;
+  private gain = 0;
+  private catchingUp = false;
+  private framesSinceReport = 0;
+  private lastReportedFill = -1;
+
+  constructor() {
+    super();
+    this.port.onmessage = (e: MessageEvent<PlayerCommand>) => this.handleCommand(e.data);
+  }
+
+  private handleCommand(command: PlayerCommand) {
+    switch (command.type) {
+      case 'push':
+        if (command.epoch < this.epoch) break;
+        // The worker's port can deliver a chunk from after a clear before the
+        // clear itself arrives; clear first, and skip the clear when it comes.
+        if (command.epoch > this.epoch) this.clear(command.epoch);
+        this.push(command.channels);
+        break;
+      case 'target-latency':
+        this.targetFrames = Math.min(this.capacity, command.frames);
+        break;
+      case 'clear':
+        if (command.epoch > this.epoch) this.clear(command.epoch);
+        break;
+      case 'decoder-port':
+        command.port.onmessage = (e: MessageEvent<PlayerCommand>) => this.handleCommand(e.data);
+        break;
+    }
+  }
+
+  private clear(epoch: number) {
+    this.epoch = epoch;
+    // While playing, keep just enough to fade out rather than click.
+    this.fill = this.playing ? Math.min(this.fill, this.fadeFrames) : 0;
+    this.clearing = this.playing;
+    this.writeIndex = (this.readIndex + this.fill) % this.capacity;
+  }
+
+  private post(report: PlayerReport) {
+    this.port.postMessage(report);
+  }
+
+  private push(channels: Float32Array[]) {
+    const frames = Math.min(channels[0].length, this.capacity);
+    while (this.ring.length < channels.length) this.ring.push(new Float32Array(this.capacity));
+    this.clearing = false;
+    const overflow = this.fill + frames - this.capacity;
+    if (overflow > 0) this.skip(overflow);
+    for (let c = 0; c < this.ring.length; c++) {
+      const source = channels[Math.min(c, channels.length - 1)];
+      const target = this.ring[c];
+      for (let i = 0; i < frames; i++) {
+        target[(this.writeIndex + i) % this.capacity] = source[i];
+      }
+    }
+    this.writeIndex = (this.writeIndex + frames) % this.capacity;
+    this.fill += frames;
+  }
+
+  private skip(frames: number) {
+    this.readIndex = (this.readIndex + frames) % this.capacity;
+    this.fill -= frames;
+  }
+
+  /** Moves the read position on by `step` frames, which may be fractional. */
+  private advance(step: number) {
+    this.readPhase += step;
+    const whole = Math.min(Math.floor(this.readPhase), this.fill);
+    this.readPhase -= whole;
+    this.skip(whole);
+  }
+
+  private sample(channel: number, offset: number) {
+    const ring = this.ring[Math.min(channel, this.ring.length - 1)];
+    return ring[(this.readIndex + offset) % this.capacity];
+  }
+
+  /** The sample at the read position, interpolated between frames. */
+  private read(channel: number) {
+    const current = this.sample(channel, 0);
+    if (this.readPhase === 0 || this.fill < 2) return current;
+    return current + (this.sample(channel, 1) - current) * this.readPhase;
+  }
+
+  process(_inputs: Float32Array[][], outputs: Float32Array[][]) {
+    const output = outputs[0];
+    const frames = output[0].length;
+    this.report(frames);
+
+    if (!this.playing) {
+      if (this.fill === 0 || this.fill < this.targetFrames) return true;
+      this.playing = true;
+      this.catchingUp = false;
+      this.readPhase = 0;
+      this.post({ type: 'started' });
+    }
+
+    // When more is buffered than needed, play a little fast until back at
+    // the target, rather than jumping ahead and dropping audio.
+    if (this.fill > this.targetFrames + CATCH_UP_THRESHOLD_SECONDS * sampleRate) {
+      this.catchingUp = true;
+    } else if (this.fill <= this.targetFrames) {
+      this.catchingUp = false;
+    }
+    const step = this.catchingUp ? 1 + CATCH_UP_RATE : 1;
+
+    for (let i = 0; i < frames; i++) {
+      if (this.fill === 0) {
+        this.playing = false;
+        this.gain = 0;
+        if (!this.clearing) this.post({ type: 'underrun' });
+        this.clearing = false;
+        break;
+      }
+      // Ramp towards full level, or towards silence as the buffer runs dry.
+      const target = Math.min(1, this.fill / this.fadeFrames);
+      const step = 1 / this.fadeFrames;
+      this.gain = this.gain < target ? Math.min(target, this.gain + step) : Math.max(target, this.gain - step);
+      for (let c = 0; c < output.length; c++) {
+        output[c][i] = this.read(c) * this.gain;
+      }
+      this.advance(step);
+    }
+    return true;
+  }
+
+  private report(frames: number) {
+    this.framesSinceReport += frames;
+    if (this.framesSinceReport < REPORT_INTERVAL_SECONDS * sampleRate) return;
+    this.framesSinceReport = 0;
+    if (this.fill === this.lastReportedFill) return;
+    this.lastReportedFill = this.fill;
+    this.post({ type: 'buffered', frames: this.fill });
+  }
+}
+
+registerProcessor('pcm-player', PcmPlayerProcessor);
@@ -0,0 +1,102 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Prompt } from '../types';
+import { isObject, toPrompt, validatePrompts, type ValidationError } from './validation';
+
+export const PROFILE_FORMAT = 'prompt-dj-midi-profile';
+export const PROFILE_VERSION = 1;
+
+/**
+ * A controller profile, shared as a JSON file:
+ *
+ * ```json
+ * {
+ *   "format": "prompt-dj-midi-profile",
+ *   "version": 1,
+ *   "device": "nanoKONTROL2 SLIDER/KNOB",
+ *   "exportedAt": "2026-01-04T20:00:00.000Z",
+ *   "prompts": [
+ *     { "promptId": "prompt-0", "text": "Techno", "weight": 1,
+ *       "color": "#9d00ff", "cc": 0, "channel": 0, "note": 36,
+ *       "device": "nanoKONTROL2 SLIDER/KNOB",
+ *       "response": { "curve": "linear", "min": 0, "max": 2,
+ *                     "mode": "absolute", "softTakeover": false } }
+ *   ]
+ * }
+ * ```
+ *
+ * `device` is the name of the MIDI input the mappings were learned on, or
+ * null. `weight` is 0-2, `cc` 0-127 and `channel` 0-15 (MIDI channel 1 is 0).
+ * `note` is the pad note that toggles the prompt, 0-127 or null; profiles
+ * exported before pads could be learned omit it. `noteChannel` (0-15) and
+ * `noteDevice` are where the pad was learned; a missing or null channel
+ * accepts any, and a missing device is taken from `device`. Each prompt's
+ * `device` is the input its CC was learned on, or null to accept any input, and
+ * `response` how its CC moves the weight (defaults to linear 0-2 if missing).
+ * `muted` and `solo` default to false. `muteButton` and `soloButton` are the
+ * learned buttons, `{ "type": "note" | "cc", "number", "channel", "device" }`
+ * or null, and `latch` (default true) whether pads and buttons toggle rather
+ * than act while held. `automation` holds the prompt's `lfo`, `envelope` and
+ * `loop`, each null when unused; profiles without it get none.
+ */
+export interface ControllerProfile {
+  format: typeof PROFILE_FORMAT;
+  version: number;
+  device: string | null;
+  exportedAt: string;
+  prompts: Prompt[];
+}
+
+export function createProfile(prompts: Map<string, Prompt>, device: string | null): ControllerProfile {
+  return {
+    format: PROFILE_FORMAT,
+    version: PROFILE_VERSION,
+    device,
+    exportedAt: new Date().toISOString(),
+    prompts: [...prompts.values()].map((p) => ({ ...p })),
+  };
+}
+
+export function profileToBlob(profile: ControllerProfile): Blob {
+  return new Blob([JSON.stringify(profile, null, 2)], { type: 'application/json' });
+}
+
+/** Parses and validates a profile file, reporting every invalid field. */
+export function parseProfile(json: string): { profile: ControllerProfile | null; errors: ValidationError[] } {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    return { profile: null, errors: [{ path: 'file', message: `is not valid JSON (${(e as Error).message})` }] };
+  }
+  if (!isObject(data)) {
+    return { profile: null, errors: [{ path: 'file', message: 'must contain a JSON object' }] };
+  }
+
+  const errors: ValidationError[] = [];
+  if (data.format !== PROFILE_FORMAT) {
+    errors.push({ path: 'format', message: `must be "${PROFILE_FORMAT}"` });
+  }
+  const version = data.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1 || version > PROFILE_VERSION) {
+    errors.push({ path: 'version', message: `must be a whole number from 1 to ${PROFILE_VERSION}` });
+  }
+  if (data.device !== null && data.device !== undefined && typeof data.device !== 'string') {
+    errors.push({ path: 'device', message: 'must be a string or null' });
+  }
+  errors.push(...validatePrompts(data.prompts, 'prompts'));
+  if (errors.length > 0) return { profile: null, errors };
+
+  return {
+    profile: {
+      format: PROFILE_FORMAT,
+      version: version as number,
+      device: (data.device as string | undefined) ?? null,
+      exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+      prompts: (data.prompts as Record<string, unknown>[]).map(toPrompt),
+    },
+    errors,
+  };
+}
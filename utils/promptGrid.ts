@@ -0,0 +1,82 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Prompt } from '../types';
+import { DEFAULT_AUTOMATION } from './AutomationEngine';
+import { DEFAULT_CONTROL_RESPONSE } from './controlResponse';
+
+export const DEFAULT_GRID_COLUMNS = 4;
+export const MAX_GRID_COLUMNS = 8;
+export const MAX_PROMPTS = 64;
+
+/** Colors handed out to new prompts in turn. */
+export const PROMPT_COLORS = [
+  '#ff00ff', '#9d00ff', '#00f2ff', '#fffb00', '#00ff88', '#ff3c00', '#5200ff', '#ff0055',
+];
+
+/** A silent prompt with default controls. */
+export function blankPrompt(promptId: string, text: string, color: string, cc: number): Prompt {
+  return {
+    promptId,
+    text,
+    weight: 0,
+    cc,
+    channel: 0,
+    note: null,
+    noteChannel: null,
+    device: null,
+    noteDevice: null,
+    response: { ...DEFAULT_CONTROL_RESPONSE },
+    color,
+    muted: false,
+    solo: false,
+    muteButton: null,
+    soloButton: null,
+    latch: true,
+    automation: { ...DEFAULT_AUTOMATION },
+  };
+}
+
+export function isGridColumns(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 1 && (value as number) <= MAX_GRID_COLUMNS;
+}
+
+export function gridRows(count: number, columns: number) {
+  return Math.max(1, Math.ceil(count / columns));
+}
+
+/** Appends a blank prompt on the lowest CC no other prompt uses. */
+export function addPrompt(prompts: Map<string, Prompt>): Map<string, Prompt> {
+  const ids = new Set(prompts.keys());
+  let n = prompts.size;
+  while (ids.has(`prompt-${n}`)) n++;
+  const usedCcs = new Set([...prompts.values()].map((p) => p.cc));
+  const cc = Array.from({ length: 128 }, (_, i) => i).find((i) => !usedCcs.has(i)) ?? 0;
+  const color = PROMPT_COLORS[prompts.size % PROMPT_COLORS.length];
+  const prompt = blankPrompt(`prompt-${n}`, `Prompt ${prompts.size + 1}`, color, cc);
+  return new Map([...prompts, [prompt.promptId, prompt]]);
+}
+
+/** Adds blank prompts to, or drops them from, the end of the grid. */
+export function resizePrompts(prompts: Map<string, Prompt>, count: number): Map<string, Prompt> {
+  let resized = new Map([...prompts].slice(0, count));
+  while (resized.size < count) resized = addPrompt(resized);
+  return resized;
+}
+
+/** Moves a prompt to the position of another, shifting the ones between. */
+export function movePrompt(prompts: Map<string, Prompt>, promptId: string, targetId: string): Map<string, Prompt> {
+  const entries = [...prompts];
+  const from = entries.findIndex(([id]) => id === promptId);
+  const to = entries.findIndex(([id]) => id === targetId);
+  if (from === -1 || to === -1 || from === to) return prompts;
+  const [moved] = entries.splice(from, 1);
+  entries.splice(to, 0, moved);
+  return new Map(entries);
+}
+
+/** Numbers the CCs on channel 0 in grid order, for controllers laid out the same way. */
+export function assignCcs(prompts: Map<string, Prompt>): Map<string, Prompt> {
+  return new Map([...prompts.values()].map((p, i) => [p.promptId, { ...p, cc: i, channel: 0 }]));
+}
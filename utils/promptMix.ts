@@ -0,0 +1,17 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Prompt } from '../types';
+
+/** True if a prompt is heard, given whether any prompt in its grid is soloed. */
+export function isAudible(prompt: Prompt, soloActive: boolean) {
+  return !prompt.muted && (!soloActive || prompt.solo);
+}
+
+/** The prompts left after applying mute and solo; weights are untouched. */
+export function audiblePrompts(prompts: Iterable<Prompt>): Prompt[] {
+  const all = [...prompts];
+  const soloActive = all.some((p) => p.solo);
+  return all.filter((p) => isAudible(p, soloActive));
+}
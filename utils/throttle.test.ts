@@ -0,0 +1,91 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { throttle } from './throttle';
+
+describe('throttle', () => {
+  beforeEach(() => {
+    // The throttle schedules through window; tests run in Node.
+    vi.stubGlobal('window', globalThis);
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('runs the first call of a quiet period at once', async () => {
+    const func = vi.fn();
+    const throttled = throttle(func, 200);
+    await throttled(1);
+    expect(func).toHaveBeenCalledTimes(1);
+    expect(func).toHaveBeenCalledWith(1);
+  });
+
+  it('delivers the last arguments on the trailing edge', async () => {
+    const func = vi.fn();
+    const throttled = throttle(func, 200);
+    void throttled(1);
+    const trailing = throttled(2);
+    await vi.advanceTimersByTimeAsync(199);
+    expect(func).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await trailing;
+    expect(func).toHaveBeenCalledTimes(2);
+    expect(func).toHaveBeenLastCalledWith(2);
+  });
+
+  it('coalesces a burst into one trailing call', async () => {
+    const func = vi.fn();
+    const throttled = throttle(func, 200);
+    void throttled(0);
+    const calls = [1, 2, 3, 4].map((n) => throttled(n));
+    expect(new Set(calls).size).toBe(1);
+    await vi.advanceTimersByTimeAsync(200);
+    await Promise.all(calls);
+    expect(func.mock.calls).toEqual([[0], [4]]);
+  });
+
+  it('drops the pending call on cancel', async () => {
+    const func = vi.fn();
+    const throttled = throttle(func, 200);
+    void throttled(1);
+    const dropped = throttled(2);
+    throttled.cancel();
+    await dropped;
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(func.mock.calls).toEqual([[1]]);
+  });
+
+  it('makes the pending call at once on flush, after the one in flight', async () => {
+    const order: string[] = [];
+    let finishFirst!: () => void;
+    const func = vi.fn(async (n: number) => {
+      order.push(`start ${n}`);
+      if (n === 1) await new Promise<void>((resolve) => (finishFirst = resolve));
+      order.push(`end ${n}`);
+    });
+    const throttled = throttle(func, 200);
+    void throttled(1);
+    const trailing = throttled(2);
+    const flushed = throttled.flush().then((invoked) => order.push(`flushed ${invoked}`));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(order).toEqual(['start 1']);
+    finishFirst();
+    await flushed;
+    await trailing;
+    expect(order).toEqual(['start 1', 'end 1', 'start 2', 'end 2', 'flushed true']);
+    expect(vi.getTimerCount()).toBe(0);
+  });
+
+  it('resolves flush to false when nothing is pending', async () => {
+    const func = vi.fn();
+    const throttled = throttle(func, 200);
+    await throttled(1);
+    await expect(throttled.flush()).resolves.toBe(false);
+    expect(func).toHaveBeenCalledTimes(1);
+  });
+});
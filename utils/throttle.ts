@@ -2,23 +2,81 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+
+/** A rate-limited function; see `throttle`. */
+export interface Throttled<A extends unknown[]> {
+  /** Resolves once these arguments, or later ones that replaced them, have been handled. */
+  (...args: A): Promise<void>;
+  /** Drops the pending call, if any. */
+  cancel(): void;
+  /**
+   * Makes the pending call now; resolves once every call made so far has
+   * finished, to whether there was a pending call.
+   */
+  flush(): Promise<boolean>;
+}
+
 /**
- * Throttles a callback to be called at most once per `delay` milliseconds.
- * Also returns the result of the last "fresh" call...
+ * Limits a callback to one call per `delay` milliseconds. The first call in
+ * a quiet period runs at once. Calls inside the window are coalesced into a
+ * single trailing call with the latest arguments, so the final value is
+ * always delivered. Async callbacks never overlap: each call waits for the
+ * previous one to settle, and its promise rejects if the callback throws.
  */
-export function throttle<T extends (...args: Parameters<T>) => ReturnType<T>>(
-  func: T,
+export function throttle<A extends unknown[]>(
+  func: (...args: A) => unknown,
   delay: number,
-): (...args: Parameters<T>) => ReturnType<T> {
+): Throttled<A> {
   let lastCall = -Infinity;
-  let lastResult: ReturnType<T>;
-  return (...args: Parameters<T>) => {
-    const now = Date.now();
-    const timeSinceLastCall = now - lastCall;
-    if (timeSinceLastCall >= delay) {
-      lastResult = func(...args);
-      lastCall = now;
+  let timer: number | null = null;
+  let pending: { args: A; promise: Promise<void>; resolve: (run: Promise<void>) => void } | null = null;
+  let inFlight: Promise<void> = Promise.resolve();
+
+  const invoke = (args: A) => {
+    lastCall = Date.now();
+    const run = inFlight.then(() => func(...args)).then(() => undefined);
+    inFlight = run.catch(() => undefined);
+    return run;
+  };
+
+  const invokePending = () => {
+    if (timer !== null) window.clearTimeout(timer);
+    timer = null;
+    if (!pending) return false;
+    const { args, resolve } = pending;
+    pending = null;
+    resolve(invoke(args));
+    return true;
+  };
+
+  const throttled = (...args: A) => {
+    if (pending) {
+      pending.args = args;
+      return pending.promise;
     }
-    return lastResult;
+    const wait = lastCall + delay - Date.now();
+    if (wait <= 0) return invoke(args);
+
+    let resolve!: (run: Promise<void>) => void;
+    const promise = new Promise<void>((r) => {
+      resolve = r;
+    });
+    pending = { args, promise, resolve };
+    timer = window.setTimeout(invokePending, wait);
+    return promise;
+  };
+
+  throttled.cancel = () => {
+    if (timer !== null) window.clearTimeout(timer);
+    timer = null;
+    pending?.resolve(Promise.resolve());
+    pending = null;
+  };
+
+  throttled.flush = () => {
+    const invoked = invokePending();
+    return inFlight.then(() => invoked);
   };
+
+  return throttled;
 }
@@ -0,0 +1,286 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type {
+  Automation,
+  AutomationLoop,
+  ButtonMapping,
+  ControlResponse,
+  EncoderMode,
+  Envelope,
+  Lfo,
+  LfoShape,
+  Prompt,
+  ResponseCurve,
+} from '../types';
+import { DEFAULT_AUTOMATION, LFO_SHAPES } from './AutomationEngine';
+import { DEFAULT_CONTROL_RESPONSE, ENCODER_MODES, RESPONSE_CURVES } from './controlResponse';
+
+/** A problem with one field of untrusted data, e.g. `prompts[3].weight`. */
+export interface ValidationError {
+  path: string;
+  message: string;
+}
+
+export function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkNumber(
+  errors: ValidationError[],
+  value: unknown,
+  path: string,
+  min: number,
+  max: number,
+  integer = false,
+) {
+  if (typeof value !== 'number' || Number.isNaN(value)) {
+    errors.push({ path, message: 'must be a number' });
+  } else if (integer && !Number.isInteger(value)) {
+    errors.push({ path, message: 'must be an integer' });
+  } else if (value < min || value > max) {
+    errors.push({ path, message: `must be between ${min} and ${max}` });
+  }
+}
+
+function checkString(errors: ValidationError[], value: unknown, path: string, pattern?: RegExp) {
+  if (typeof value !== 'string' || value.trim() === '') {
+    errors.push({ path, message: 'must be a non-empty string' });
+  } else if (pattern && !pattern.test(value)) {
+    errors.push({ path, message: `must match ${pattern}` });
+  }
+}
+
+/** Checks the fields of a MIDI control change assignment. */
+export function validateControlChange(value: Record<string, unknown>, path: string): ValidationError[] {
+  const errors: ValidationError[] = [];
+  checkNumber(errors, value.cc, `${path}.cc`, 0, 127, true);
+  checkNumber(errors, value.channel, `${path}.channel`, 0, 15, true);
+  return errors;
+}
+
+/** Checks an optional MIDI input name; missing or null means any input. */
+export function validateDevice(value: unknown, path: string): ValidationError[] {
+  if (value === undefined || value === null || typeof value === 'string') return [];
+  return [{ path, message: 'must be a string or null' }];
+}
+
+/** Checks an optional button mapping; missing or null means none was learned. */
+export function validateButtonMapping(value: unknown, path: string): ValidationError[] {
+  if (value === undefined || value === null) return [];
+  if (!isObject(value)) return [{ path, message: 'must be an object or null' }];
+  const errors: ValidationError[] = [];
+  if (value.type !== 'note' && value.type !== 'cc') {
+    errors.push({ path: `${path}.type`, message: 'must be "note" or "cc"' });
+  }
+  checkNumber(errors, value.number, `${path}.number`, 0, 127, true);
+  checkNumber(errors, value.channel, `${path}.channel`, 0, 15, true);
+  errors.push(...validateDevice(value.device, `${path}.device`));
+  return errors;
+}
+
+function toButtonMapping(value: unknown): ButtonMapping | null {
+  if (!isObject(value)) return null;
+  return {
+    type: value.type as ButtonMapping['type'],
+    number: value.number as number,
+    channel: value.channel as number,
+    device: (value.device as string | null | undefined) ?? null,
+  };
+}
+
+/** Checks how a prompt's CC moves its weight. */
+export function validateControlResponse(value: unknown, path: string): ValidationError[] {
+  if (!isObject(value)) return [{ path, message: 'must be an object' }];
+  const errors: ValidationError[] = [];
+  if (!RESPONSE_CURVES.includes(value.curve as ResponseCurve)) {
+    errors.push({ path: `${path}.curve`, message: `must be one of ${RESPONSE_CURVES.join(', ')}` });
+  }
+  if (!ENCODER_MODES.includes(value.mode as EncoderMode)) {
+    errors.push({ path: `${path}.mode`, message: `must be one of ${ENCODER_MODES.join(', ')}` });
+  }
+  checkNumber(errors, value.min, `${path}.min`, 0, 2);
+  checkNumber(errors, value.max, `${path}.max`, 0, 2);
+  if (typeof value.softTakeover !== 'boolean') {
+    errors.push({ path: `${path}.softTakeover`, message: 'must be a boolean' });
+  }
+  return errors;
+}
+
+/** Copies only the ControlResponse fields from a value that passed validateControlResponse. */
+export function toControlResponse(value: Record<string, unknown>): ControlResponse {
+  return {
+    curve: value.curve as ResponseCurve,
+    min: value.min as number,
+    max: value.max as number,
+    mode: value.mode as EncoderMode,
+    softTakeover: value.softTakeover as boolean,
+  };
+}
+
+/** Checks a prompt's LFO, envelope and loop; each may be null. */
+export function validateAutomation(value: unknown, path: string): ValidationError[] {
+  if (!isObject(value)) return [{ path, message: 'must be an object' }];
+  const errors: ValidationError[] = [];
+  const { lfo, envelope, loop } = value;
+  if (lfo !== null) {
+    if (!isObject(lfo)) {
+      errors.push({ path: `${path}.lfo`, message: 'must be an object or null' });
+    } else {
+      if (!LFO_SHAPES.includes(lfo.shape as LfoShape)) {
+        errors.push({ path: `${path}.lfo.shape`, message: `must be one of ${LFO_SHAPES.join(', ')}` });
+      }
+      checkNumber(errors, lfo.beats, `${path}.lfo.beats`, 0.25, 64);
+      checkNumber(errors, lfo.depth, `${path}.lfo.depth`, 0, 2);
+    }
+  }
+  if (envelope !== null) {
+    if (!isObject(envelope)) {
+      errors.push({ path: `${path}.envelope`, message: 'must be an object or null' });
+    } else {
+      if (envelope.note !== null) checkNumber(errors, envelope.note, `${path}.envelope.note`, 0, 127, true);
+      for (const key of ['attack', 'decay', 'release'] as const) {
+        checkNumber(errors, envelope[key], `${path}.envelope.${key}`, 0, 60);
+      }
+      checkNumber(errors, envelope.sustain, `${path}.envelope.sustain`, 0, 1);
+      checkNumber(errors, envelope.depth, `${path}.envelope.depth`, -2, 2);
+    }
+  }
+  if (loop !== null) {
+    if (!isObject(loop)) {
+      errors.push({ path: `${path}.loop`, message: 'must be an object or null' });
+    } else {
+      checkNumber(errors, loop.beats, `${path}.loop.beats`, 1, 64, true);
+      if (!Array.isArray(loop.points)) {
+        errors.push({ path: `${path}.loop.points`, message: 'must be an array' });
+      } else {
+        loop.points.forEach((point, i) => {
+          const pointPath = `${path}.loop.points[${i}]`;
+          if (!isObject(point)) {
+            errors.push({ path: pointPath, message: 'must be an object' });
+            return;
+          }
+          checkNumber(errors, point.beat, `${pointPath}.beat`, 0, 64);
+          checkNumber(errors, point.weight, `${pointPath}.weight`, 0, 2);
+        });
+      }
+    }
+  }
+  return errors;
+}
+
+/** Copies only the Automation fields from a value that passed validateAutomation. */
+export function toAutomation(value: Record<string, unknown>): Automation {
+  const lfo = value.lfo as Lfo | null;
+  const envelope = value.envelope as Envelope | null;
+  const loop = value.loop as AutomationLoop | null;
+  return {
+    lfo: lfo && { shape: lfo.shape, beats: lfo.beats, depth: lfo.depth },
+    envelope: envelope && {
+      note: envelope.note,
+      attack: envelope.attack,
+      decay: envelope.decay,
+      sustain: envelope.sustain,
+      release: envelope.release,
+      depth: envelope.depth,
+    },
+    loop: loop && { beats: loop.beats, points: loop.points.map(({ beat, weight }) => ({ beat, weight })) },
+  };
+}
+
+/** Checks that an untrusted value has every field of a Prompt. */
+export function validatePrompt(value: unknown, path: string): ValidationError[] {
+  if (!isObject(value)) return [{ path, message: 'must be an object' }];
+  const errors: ValidationError[] = [];
+  checkString(errors, value.promptId, `${path}.promptId`);
+  checkString(errors, value.text, `${path}.text`);
+  checkNumber(errors, value.weight, `${path}.weight`, 0, 2);
+  checkString(errors, value.color, `${path}.color`, /^#[0-9a-f]{6}$/i);
+  errors.push(...validateControlChange(value, path));
+  // Prompts saved before pads or devices could be learned have neither, and
+  // pads learned before their channel and device were kept lack those.
+  if (value.note !== undefined && value.note !== null) {
+    checkNumber(errors, value.note, `${path}.note`, 0, 127, true);
+  }
+  if (value.noteChannel !== undefined && value.noteChannel !== null) {
+    checkNumber(errors, value.noteChannel, `${path}.noteChannel`, 0, 15, true);
+  }
+  errors.push(...validateDevice(value.device, `${path}.device`));
+  errors.push(...validateDevice(value.noteDevice, `${path}.noteDevice`));
+  // Prompts saved before responses could be configured use the default.
+  if (value.response !== undefined) {
+    errors.push(...validateControlResponse(value.response, `${path}.response`));
+  }
+  // Prompts saved before mute, solo and latch existed lack them.
+  for (const key of ['muted', 'solo', 'latch'] as const) {
+    if (value[key] !== undefined && typeof value[key] !== 'boolean') {
+      errors.push({ path: `${path}.${key}`, message: 'must be a boolean' });
+    }
+  }
+  errors.push(...validateButtonMapping(value.muteButton, `${path}.muteButton`));
+  errors.push(...validateButtonMapping(value.soloButton, `${path}.soloButton`));
+  // Prompts saved before automation have none.
+  if (value.automation !== undefined) {
+    errors.push(...validateAutomation(value.automation, `${path}.automation`));
+  }
+  return errors;
+}
+
+/** Checks a list of prompts, including that their ids are unique. */
+export function validatePrompts(value: unknown, path: string): ValidationError[] {
+  if (!Array.isArray(value)) return [{ path, message: 'must be an array' }];
+  if (value.length === 0) return [{ path, message: 'must contain at least one prompt' }];
+  const errors = value.flatMap((p, i) => validatePrompt(p, `${path}[${i}]`));
+  const seen = new Set<unknown>();
+  value.forEach((p, i) => {
+    if (!isObject(p)) return;
+    if (seen.has(p.promptId)) {
+      errors.push({ path: `${path}[${i}].promptId`, message: 'must be unique' });
+    }
+    seen.add(p.promptId);
+  });
+  return errors;
+}
+
+/** Checks one entry of a gesture take. */
+export function validateGesture(value: unknown, path: string): ValidationError[] {
+  if (!isObject(value)) return [{ path, message: 'must be an object' }];
+  const errors: ValidationError[] = [];
+  checkNumber(errors, value.time, `${path}.time`, 0, Infinity);
+  checkString(errors, value.promptId, `${path}.promptId`);
+  checkString(errors, value.text, `${path}.text`);
+  checkNumber(errors, value.weight, `${path}.weight`, 0, 2);
+  return errors;
+}
+
+/** Formats errors for display, one field per line, up to `limit` lines. */
+export function formatValidationErrors(errors: ValidationError[], limit = Infinity) {
+  const lines = errors.slice(0, limit).map((e) => `${e.path} ${e.message}`);
+  if (errors.length > limit) lines.push(`…and ${errors.length - limit} more`);
+  return lines.join('\n');
+}
+
+/** Copies only the Prompt fields from a value that passed validatePrompt. */
+export function toPrompt(value: Record<string, unknown>): Prompt {
+  return {
+    promptId: value.promptId as string,
+    text: value.text as string,
+    weight: value.weight as number,
+    cc: value.cc as number,
+    channel: value.channel as number,
+    note: (value.note as number | null | undefined) ?? null,
+    noteChannel: (value.noteChannel as number | null | undefined) ?? null,
+    device: (value.device as string | null | undefined) ?? null,
+    // Pads used to share the CC's device.
+    noteDevice: ((value.noteDevice === undefined ? value.device : value.noteDevice) as string | null | undefined) ?? null,
+    response: isObject(value.response) ? toControlResponse(value.response) : { ...DEFAULT_CONTROL_RESPONSE },
+    color: value.color as string,
+    muted: value.muted === true,
+    solo: value.solo === true,
+    muteButton: toButtonMapping(value.muteButton),
+    soloButton: toButtonMapping(value.soloButton),
+    latch: value.latch !== false,
+    automation: isObject(value.automation) ? toAutomation(value.automation) : { ...DEFAULT_AUTOMATION },
+  };
+}
@@ -0,0 +1,90 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** Converts a float sample in [-1, 1] to a signed 16-bit integer. */
+function floatToInt16(sample: number) {
+  const s = Math.max(-1, Math.min(1, sample));
+  return s < 0 ? Math.round(s * 0x8000) : Math.round(s * 0x7fff);
+}
+
+function writeAscii(view: DataView, offset: number, text: string) {
+  for (let i = 0; i < text.length; i++) {
+    view.setUint8(offset + i, text.charCodeAt(i));
+  }
+}
+
+/**
+ * Builds a RIFF LIST/INFO chunk. Values are UTF-8, zero-terminated and padded
+ * to an even length as the spec requires.
+ */
+function buildInfoChunk(info: Record<string, string>): Uint8Array {
+  const encoder = new TextEncoder();
+  const entries = Object.entries(info).map(([id, value]) => {
+    const text = encoder.encode(value);
+    const size = text.length + 1;
+    return { id, text, size, padded: size + (size % 2) };
+  });
+  const bodySize = 4 + entries.reduce((sum, e) => sum + 8 + e.padded, 0);
+  const bytes = new Uint8Array(8 + bodySize);
+  const view = new DataView(bytes.buffer);
+  writeAscii(view, 0, 'LIST');
+  view.setUint32(4, bodySize, true);
+  writeAscii(view, 8, 'INFO');
+  let offset = 12;
+  for (const e of entries) {
+    writeAscii(view, offset, e.id);
+    view.setUint32(offset + 4, e.size, true);
+    bytes.set(e.text, offset + 8);
+    offset += 8 + e.padded;
+  }
+  return bytes;
+}
+
+/**
+ * Encodes planar float channels as a 16-bit PCM WAV file.
+ * `info` entries are written as a LIST/INFO chunk, keyed by four-character
+ * INFO ids such as ICMT or ISFT.
+ */
+function encodeWav(
+  channels: Float32Array[],
+  sampleRate: number,
+  info: Record<string, string> = {},
+): Blob {
+  const numChannels = channels.length;
+  const frameCount = numChannels > 0 ? channels[0].length : 0;
+  const bytesPerSample = 2;
+  const blockAlign = numChannels * bytesPerSample;
+  const dataSize = frameCount * blockAlign;
+  const infoChunk = Object.keys(info).length > 0 ? buildInfoChunk(info) : new Uint8Array(0);
+
+  const header = new ArrayBuffer(36);
+  const view = new DataView(header);
+  writeAscii(view, 0, 'RIFF');
+  view.setUint32(4, 28 + infoChunk.length + 8 + dataSize, true);
+  writeAscii(view, 8, 'WAVE');
+  writeAscii(view, 12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bytesPerSample * 8, true);
+
+  const dataHeader = new DataView(new ArrayBuffer(8));
+  writeAscii(dataHeader, 0, 'data');
+  dataHeader.setUint32(4, dataSize, true);
+
+  const pcm = new Int16Array(frameCount * numChannels);
+  for (let i = 0; i < frameCount; i++) {
+    for (let c = 0; c < numChannels; c++) {
+      pcm[i * numChannels + c] = floatToInt16(channels[c][i]);
+    }
+  }
+
+  return new Blob([header, infoChunk, dataHeader.buffer, pcm.buffer], { type: 'audio/wav' });
+}
+
+export {encodeWav, floatToInt16};